@@ -0,0 +1,118 @@
+import {
+  DynamicToast,
+  attachNotificationRef,
+  detachNotificationRef,
+} from '../library/DynamicToast';
+import type { NotificationContextType } from '../library/index';
+
+const createApi = (): jest.Mocked<NotificationContextType> => ({
+  success: jest.fn(),
+  failed: jest.fn(),
+  toaster: jest.fn(),
+  warning: jest.fn(),
+  info: jest.fn(),
+  show: jest.fn(),
+  showCustom: jest.fn(),
+  promise: jest.fn(),
+  progress: jest.fn(),
+  update: jest.fn(),
+  dismiss: jest.fn(),
+  hide: jest.fn(),
+  clearQueue: jest.fn(),
+  getCloseRef: jest.fn(),
+});
+
+describe('DynamicToast', () => {
+  let ref: { current: jest.Mocked<NotificationContextType> };
+
+  beforeEach(() => {
+    ref = { current: createApi() };
+  });
+
+  afterEach(() => {
+    detachNotificationRef(ref);
+  });
+
+  it('routes calls to the mounted provider', () => {
+    attachNotificationRef(ref);
+
+    const id = DynamicToast.success('Saved');
+
+    expect(ref.current.success).toHaveBeenCalledWith('Saved', { id });
+  });
+
+  it('buffers calls made before a provider mounts and replays them in order', () => {
+    const id = DynamicToast.warning('Offline', { autoHideDelay: 1000 });
+    DynamicToast.dismiss(id);
+
+    expect(ref.current.show).not.toHaveBeenCalled();
+
+    attachNotificationRef(ref);
+
+    expect(ref.current.show).toHaveBeenCalledWith('Offline', 'warning', {
+      autoHideDelay: 1000,
+      id,
+    });
+    expect(ref.current.dismiss).toHaveBeenCalledWith(id);
+    expect(ref.current.show.mock.invocationCallOrder[0]).toBeLessThan(
+      ref.current.dismiss.mock.invocationCallOrder[0] ?? 0
+    );
+  });
+
+  it('replays buffered calls only once', () => {
+    DynamicToast.hide();
+    attachNotificationRef(ref);
+    detachNotificationRef(ref);
+
+    const next = { current: createApi() };
+    attachNotificationRef(next);
+
+    expect(ref.current.hide).toHaveBeenCalledTimes(1);
+    expect(next.current.hide).not.toHaveBeenCalled();
+    detachNotificationRef(next);
+  });
+
+  it('keeps the id given in the options', () => {
+    attachNotificationRef(ref);
+
+    expect(DynamicToast.info('Synced', { id: 'sync' })).toBe('sync');
+    expect(ref.current.show).toHaveBeenCalledWith('Synced', 'info', {
+      id: 'sync',
+    });
+  });
+
+  it('returns a progress handle bound to the id while buffered', () => {
+    const handle = DynamicToast.progress('Uploading');
+    handle.setProgress(0.5);
+
+    attachNotificationRef(ref);
+
+    expect(ref.current.progress).toHaveBeenCalledWith('Uploading', {
+      id: handle.id,
+    });
+    expect(ref.current.update).toHaveBeenCalledWith(handle.id, {
+      options: { progress: 0.5 },
+    });
+  });
+
+  it('buffers again once the provider unmounts', () => {
+    attachNotificationRef(ref);
+    detachNotificationRef(ref);
+
+    DynamicToast.clearQueue();
+    expect(ref.current.clearQueue).not.toHaveBeenCalled();
+
+    attachNotificationRef(ref);
+    expect(ref.current.clearQueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores the detach of a provider that is not attached', () => {
+    const other = { current: createApi() };
+    attachNotificationRef(ref);
+    detachNotificationRef(other);
+
+    DynamicToast.hide();
+
+    expect(ref.current.hide).toHaveBeenCalledTimes(1);
+  });
+});
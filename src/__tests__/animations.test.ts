@@ -0,0 +1,43 @@
+import {
+  animationPresets,
+  defaultAnimation,
+  resolveAnimation,
+  toastAnimation,
+} from '../library/config/animations';
+
+describe('resolveAnimation', () => {
+  it('returns the default animation of the style without an option', () => {
+    expect(resolveAnimation(defaultAnimation)).toBe(defaultAnimation);
+    expect(resolveAnimation(toastAnimation)).toBe(toastAnimation);
+  });
+
+  it('returns the preset matching a name', () => {
+    expect(resolveAnimation(defaultAnimation, 'snappy')).toBe(
+      animationPresets.snappy
+    );
+    expect(resolveAnimation(toastAnimation, 'native-like')).toBe(
+      animationPresets['native-like']
+    );
+  });
+
+  it('merges partial values over the default animation of the style', () => {
+    const animation = resolveAnimation(toastAnimation, {
+      duration: 120,
+      stagger: 0,
+    });
+
+    expect(animation).toEqual({
+      ...toastAnimation,
+      duration: 120,
+      stagger: 0,
+    });
+  });
+
+  it('replaces whole springs instead of merging them', () => {
+    const enterSpring = { damping: 30 };
+    const animation = resolveAnimation(defaultAnimation, { enterSpring });
+
+    expect(animation.enterSpring).toBe(enterSpring);
+    expect(animation.exitSpring).toBe(defaultAnimation.exitSpring);
+  });
+});
@@ -0,0 +1,196 @@
+import { Platform } from 'react-native';
+import type { Metrics } from 'react-native-safe-area-context';
+import {
+  DeviceType,
+  detectCurrentDeviceType,
+  detectDeviceType,
+  detectDeviceTypeFromInsets,
+  getCurrentModelId,
+  getDeviceAnimationConfig,
+  registerDevice,
+  setSimulatorModel,
+  unregisterDevice,
+} from '../library/config/devices';
+
+const mockDevice: { modelId: string | null; modelName: string | null } = {
+  modelId: null,
+  modelName: null,
+};
+const mockWindow: { metrics: Metrics | null } = { metrics: null };
+
+jest.mock('expo-device', () => ({
+  __esModule: true,
+  get modelId() {
+    return mockDevice.modelId;
+  },
+  get modelName() {
+    return mockDevice.modelName;
+  },
+}));
+
+jest.mock('react-native-safe-area-context', () => ({
+  __esModule: true,
+  get initialWindowMetrics() {
+    return mockWindow.metrics;
+  },
+}));
+
+const metrics = (
+  width: number,
+  height: number,
+  insets: Partial<Metrics['insets']> = {}
+): Metrics => ({
+  frame: { x: 0, y: 0, width, height },
+  insets: { top: 0, right: 0, bottom: 0, left: 0, ...insets },
+});
+
+// Models registered by the current test, removed after it
+let registered: string[] = [];
+const register = (...args: Parameters<typeof registerDevice>) => {
+  registered.push(args[0]);
+  registerDevice(...args);
+};
+
+afterEach(() => {
+  registered.forEach(unregisterDevice);
+  registered = [];
+  mockDevice.modelId = null;
+  mockDevice.modelName = null;
+  mockWindow.metrics = null;
+  setSimulatorModel(undefined);
+  jest.restoreAllMocks();
+});
+
+describe('registerDevice', () => {
+  it('adds a model missing from the built-in list', () => {
+    expect(detectDeviceType('iPhone99,1')).toBe(DeviceType.STANDARD);
+
+    register('iPhone99,1', {
+      type: DeviceType.DYNAMIC_ISLAND,
+      config: { expandedHeight: 90 },
+    });
+
+    expect(detectDeviceType('iPhone99,1')).toBe(DeviceType.DYNAMIC_ISLAND);
+    expect(getDeviceAnimationConfig('iPhone99,1').expandedHeight).toBe(90);
+  });
+
+  it('takes precedence over a built-in model', () => {
+    expect(detectDeviceType('iPhone12,1')).toBe(DeviceType.NOTCH);
+
+    register('iPhone12,1', { type: DeviceType.STANDARD });
+
+    expect(detectDeviceType('iPhone12,1')).toBe(DeviceType.STANDARD);
+  });
+
+  it('restores the built-in model once unregistered', () => {
+    register('iPhone12,1', { type: DeviceType.STANDARD });
+    unregisterDevice('iPhone12,1');
+
+    expect(detectDeviceType('iPhone12,1')).toBe(DeviceType.NOTCH);
+  });
+});
+
+describe('getCurrentModelId', () => {
+  it('returns the model identifier of a real device', () => {
+    mockDevice.modelId = 'iPhone17,1';
+
+    expect(getCurrentModelId()).toBe('iPhone17,1');
+  });
+
+  it('returns undefined on the simulator without a simulator model', () => {
+    mockDevice.modelId = 'arm64';
+
+    expect(getCurrentModelId()).toBeUndefined();
+  });
+
+  it('returns the simulator model chosen by identifier or name', () => {
+    mockDevice.modelId = 'arm64';
+
+    setSimulatorModel('iPhone16,1');
+    expect(getCurrentModelId()).toBe('iPhone16,1');
+
+    setSimulatorModel('iPhone 16 Pro');
+    expect(getCurrentModelId()).toBe('iPhone17,1');
+
+    setSimulatorModel('Unknown phone');
+    expect(getCurrentModelId()).toBeUndefined();
+  });
+
+  it('matches registered devices by model name when there is no identifier', () => {
+    register('pixel-9', { type: DeviceType.PUNCH_HOLE, name: 'Pixel 9' });
+    mockDevice.modelName = 'Pixel 9';
+
+    expect(getCurrentModelId()).toBe('pixel-9');
+  });
+
+  it('returns undefined for an unknown model name', () => {
+    mockDevice.modelName = 'Unknown phone';
+
+    expect(getCurrentModelId()).toBeUndefined();
+  });
+});
+
+describe('detectDeviceTypeFromInsets', () => {
+  it('returns STANDARD without metrics', () => {
+    expect(detectDeviceTypeFromInsets(null)).toBe(DeviceType.STANDARD);
+  });
+
+  it('classifies iPhones from the top inset', () => {
+    expect(detectDeviceTypeFromInsets(metrics(393, 852, { top: 59 }))).toBe(
+      DeviceType.DYNAMIC_ISLAND
+    );
+    expect(detectDeviceTypeFromInsets(metrics(390, 844, { top: 47 }))).toBe(
+      DeviceType.NOTCH
+    );
+    expect(detectDeviceTypeFromInsets(metrics(375, 667, { top: 20 }))).toBe(
+      DeviceType.STANDARD
+    );
+  });
+
+  it('reads the side inset in landscape', () => {
+    expect(
+      detectDeviceTypeFromInsets(metrics(852, 393, { left: 59, top: 0 }))
+    ).toBe(DeviceType.DYNAMIC_ISLAND);
+  });
+
+  it('returns STANDARD on tablets', () => {
+    expect(detectDeviceTypeFromInsets(metrics(820, 1180, { top: 24 }))).toBe(
+      DeviceType.STANDARD
+    );
+  });
+
+  it('classifies Android screens with a tall status bar as punch-hole', () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+
+    expect(detectDeviceTypeFromInsets(metrics(412, 915, { top: 48 }))).toBe(
+      DeviceType.PUNCH_HOLE
+    );
+    expect(detectDeviceTypeFromInsets(metrics(412, 915, { top: 24 }))).toBe(
+      DeviceType.STANDARD
+    );
+  });
+});
+
+describe('detectCurrentDeviceType', () => {
+  it('uses the device list for known models', () => {
+    mockDevice.modelId = 'iPhone17,1';
+
+    expect(detectCurrentDeviceType('modelId')).toBe(DeviceType.DYNAMIC_ISLAND);
+    expect(detectCurrentDeviceType('hybrid')).toBe(DeviceType.DYNAMIC_ISLAND);
+  });
+
+  it('falls back to the insets for unknown models in hybrid mode', () => {
+    mockDevice.modelId = 'iPhone42,1';
+    mockWindow.metrics = metrics(402, 874, { top: 62 });
+
+    expect(detectCurrentDeviceType('hybrid')).toBe(DeviceType.DYNAMIC_ISLAND);
+    expect(detectCurrentDeviceType('modelId')).toBe(DeviceType.STANDARD);
+  });
+
+  it('ignores the device list in insets mode', () => {
+    mockDevice.modelId = 'iPhone17,1';
+    mockWindow.metrics = metrics(375, 667, { top: 20 });
+
+    expect(detectCurrentDeviceType('insets')).toBe(DeviceType.STANDARD);
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  clampProgress,
+  createProgressHandle,
+} from '../library/utils/progressHandle';
+
+describe('clampProgress', () => {
+  it('keeps the value between 0 and 1', () => {
+    expect(clampProgress(-0.5)).toBe(0);
+    expect(clampProgress(0.4)).toBe(0.4);
+    expect(clampProgress(3)).toBe(1);
+  });
+});
+
+describe('createProgressHandle', () => {
+  it('updates the progress of its notification, clamped', () => {
+    const update = jest.fn();
+    const handle = createProgressHandle('upload', update);
+
+    handle.setProgress(1.5);
+
+    expect(handle.id).toBe('upload');
+    expect(update).toHaveBeenCalledWith('upload', {
+      options: { progress: 1 },
+    });
+  });
+
+  it('changes the message', () => {
+    const update = jest.fn();
+    createProgressHandle('upload', update).setMessage('Almost there');
+
+    expect(update).toHaveBeenCalledWith('upload', {
+      message: 'Almost there',
+    });
+  });
+
+  it('morphs into a success and removes the progress bar on complete', () => {
+    const update = jest.fn();
+    createProgressHandle('upload', update).complete('Uploaded');
+
+    expect(update).toHaveBeenCalledWith('upload', {
+      type: 'success',
+      message: 'Uploaded',
+      options: { progress: undefined },
+    });
+  });
+
+  it('morphs into a failure and removes the progress bar on fail', () => {
+    const update = jest.fn();
+    createProgressHandle('upload', update).fail();
+
+    expect(update).toHaveBeenCalledWith('upload', {
+      type: 'failed',
+      message: undefined,
+      options: { progress: undefined },
+    });
+  });
+});
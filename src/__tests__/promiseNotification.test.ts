@@ -0,0 +1,78 @@
+import { settleWithPromise } from '../library/utils/promiseNotification';
+
+// Let the callbacks of settled promises run
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('settleWithPromise', () => {
+  it('turns into a success with the message of the resolved value', async () => {
+    const update = jest.fn();
+    settleWithPromise(
+      'save',
+      Promise.resolve(3),
+      {
+        loading: 'Saving',
+        success: (count) => `${count} items saved`,
+        error: 'Not saved',
+      },
+      update
+    );
+
+    await flushPromises();
+
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update).toHaveBeenCalledWith('save', {
+      type: 'success',
+      message: '3 items saved',
+    });
+  });
+
+  it('turns into a failure with the message of the error', async () => {
+    const update = jest.fn();
+    settleWithPromise(
+      'save',
+      Promise.reject(new Error('offline')),
+      {
+        loading: 'Saving',
+        success: 'Saved',
+        error: (error) => `Not saved: ${(error as Error).message}`,
+      },
+      update
+    );
+
+    await flushPromises();
+
+    expect(update).toHaveBeenCalledWith('save', {
+      type: 'failed',
+      message: 'Not saved: offline',
+    });
+  });
+
+  it('uses plain string messages as is', async () => {
+    const update = jest.fn();
+    settleWithPromise(
+      'save',
+      Promise.resolve(),
+      { loading: 'Saving', success: 'Saved', error: 'Not saved' },
+      update
+    );
+
+    await flushPromises();
+
+    expect(update).toHaveBeenCalledWith('save', {
+      type: 'success',
+      message: 'Saved',
+    });
+  });
+
+  it('waits for the promise to settle', () => {
+    const update = jest.fn();
+    settleWithPromise(
+      'save',
+      new Promise(() => {}),
+      { loading: 'Saving', success: 'Saved', error: 'Not saved' },
+      update
+    );
+
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  addNotification,
+  clearQueuedNotifications,
+  patchNotification,
+  releaseNotification,
+  removeQueuedNotification,
+} from '../library/utils/queue';
+import type { FitsFn, NotificationQueue } from '../library/utils/queue';
+
+type Item = { id: string; stackable?: boolean; message?: string };
+
+// One notification at a time, except stackable ones up to three
+const fits: FitsFn<Item> = (notification, shown) =>
+  shown.length === 0 ||
+  (!!notification.stackable &&
+    shown.every((item) => item.stackable) &&
+    shown.length < 3);
+
+const ids = (items: Item[]) => items.map((item) => item.id);
+
+describe('addNotification', () => {
+  it('shows the notification when the screen is free', () => {
+    const { state, dropped } = addNotification(
+      { active: [], queue: [] },
+      { id: 'a' },
+      fits
+    );
+
+    expect(ids(state.active)).toEqual(['a']);
+    expect(state.queue).toEqual([]);
+    expect(dropped).toEqual([]);
+  });
+
+  it('queues the notification when it does not fit', () => {
+    const { state } = addNotification(
+      { active: [{ id: 'a' }], queue: [] },
+      { id: 'b' },
+      fits
+    );
+
+    expect(ids(state.active)).toEqual(['a']);
+    expect(ids(state.queue)).toEqual(['b']);
+  });
+
+  it('queues the notification behind pending ones, even when it fits', () => {
+    const initial: NotificationQueue<Item> = {
+      active: [{ id: 'a', stackable: true }],
+      queue: [{ id: 'b' }],
+    };
+    const { state } = addNotification(
+      initial,
+      { id: 'c', stackable: true },
+      fits
+    );
+
+    expect(ids(state.active)).toEqual(['a']);
+    expect(ids(state.queue)).toEqual(['b', 'c']);
+  });
+
+  it('drops the oldest queued notifications beyond maxQueueSize', () => {
+    const initial: NotificationQueue<Item> = {
+      active: [{ id: 'a' }],
+      queue: [{ id: 'b' }, { id: 'c' }],
+    };
+    const { state, dropped } = addNotification(initial, { id: 'd' }, fits, 2);
+
+    expect(ids(state.queue)).toEqual(['c', 'd']);
+    expect(ids(dropped)).toEqual(['b']);
+  });
+
+  it('drops the new notification when maxQueueSize is 0', () => {
+    const { state, dropped } = addNotification(
+      { active: [{ id: 'a' }], queue: [] },
+      { id: 'b' },
+      fits,
+      0
+    );
+
+    expect(state.queue).toEqual([]);
+    expect(ids(dropped)).toEqual(['b']);
+  });
+});
+
+describe('releaseNotification', () => {
+  it('shows the next queued notification in place of the hidden one', () => {
+    const released = releaseNotification(
+      { active: [{ id: 'a' }], queue: [{ id: 'b' }, { id: 'c' }] },
+      'a',
+      fits
+    );
+
+    expect(released?.hidden.id).toBe('a');
+    expect(ids(released?.state.active ?? [])).toEqual(['b']);
+    expect(ids(released?.state.queue ?? [])).toEqual(['c']);
+  });
+
+  it('shows queued notifications in order while they fit', () => {
+    const released = releaseNotification(
+      {
+        active: [{ id: 'a' }],
+        queue: [
+          { id: 'b', stackable: true },
+          { id: 'c', stackable: true },
+          { id: 'd' },
+          { id: 'e', stackable: true },
+        ],
+      },
+      'a',
+      fits
+    );
+
+    expect(ids(released?.state.active ?? [])).toEqual(['b', 'c']);
+    expect(ids(released?.state.queue ?? [])).toEqual(['d', 'e']);
+  });
+
+  it('ignores a late callback from a notification no longer on screen', () => {
+    const initial: NotificationQueue<Item> = {
+      active: [{ id: 'b' }],
+      queue: [{ id: 'c' }],
+    };
+
+    expect(releaseNotification(initial, 'a', fits)).toBeUndefined();
+  });
+
+  it('ignores a late callback from a notification dropped from the queue', () => {
+    const { state, dropped } = addNotification(
+      { active: [{ id: 'a' }], queue: [{ id: 'b' }] },
+      { id: 'c' },
+      fits,
+      1
+    );
+
+    expect(ids(dropped)).toEqual(['b']);
+    expect(releaseNotification(state, 'b', fits)).toBeUndefined();
+  });
+});
+
+describe('clearQueuedNotifications', () => {
+  it('drops every queued notification and keeps the visible ones', () => {
+    const { state, dropped } = clearQueuedNotifications<Item>({
+      active: [{ id: 'a' }],
+      queue: [{ id: 'b' }, { id: 'c' }],
+    });
+
+    expect(ids(state.active)).toEqual(['a']);
+    expect(state.queue).toEqual([]);
+    expect(ids(dropped)).toEqual(['b', 'c']);
+  });
+});
+
+describe('patchNotification', () => {
+  const initial: NotificationQueue<Item> = {
+    active: [{ id: 'a', message: 'Uploading' }],
+    queue: [{ id: 'b', message: 'Waiting' }],
+  };
+
+  it('updates a visible notification', () => {
+    const state = patchNotification(initial, 'a', { message: 'Uploaded' });
+
+    expect(state?.active).toEqual([{ id: 'a', message: 'Uploaded' }]);
+    expect(state?.queue).toBe(initial.queue);
+  });
+
+  it('updates a queued notification without showing it', () => {
+    const state = patchNotification(initial, 'b', { message: 'Next' });
+
+    expect(state?.active).toBe(initial.active);
+    expect(state?.queue).toEqual([{ id: 'b', message: 'Next' }]);
+  });
+
+  it('returns undefined for an unknown id', () => {
+    expect(
+      patchNotification(initial, 'c', { message: 'Lost' })
+    ).toBeUndefined();
+  });
+});
+
+describe('removeQueuedNotification', () => {
+  it('removes a queued notification and keeps the order of the others', () => {
+    const removed = removeQueuedNotification<Item>(
+      { active: [{ id: 'a' }], queue: [{ id: 'b' }, { id: 'c' }, { id: 'd' }] },
+      'c'
+    );
+
+    expect(removed?.removed.id).toBe('c');
+    expect(ids(removed?.state.active ?? [])).toEqual(['a']);
+    expect(ids(removed?.state.queue ?? [])).toEqual(['b', 'd']);
+  });
+
+  it('leaves visible notifications to be hidden by their animation', () => {
+    expect(
+      removeQueuedNotification<Item>({ active: [{ id: 'a' }], queue: [] }, 'a')
+    ).toBeUndefined();
+  });
+});
@@ -1,5 +1,5 @@
 // Dynamic Island Notification Component – Bug‑free version
-// Stop infinite onLayout loops by measuring content only once.
+// Content is laid out at a fixed width, so measuring it never loops.
 import { useEffect, useRef, useState } from 'react';
 import {
   Text,
@@ -19,17 +19,39 @@ import Animated, {
   interpolate,
   runOnJS,
 } from 'react-native-reanimated';
-import * as Haptics from 'expo-haptics';
-import * as Device from 'expo-device';
-import { getDeviceAnimationConfig } from './config/devices';
+import { GestureDetector } from 'react-native-gesture-handler';
+
+import {
+  DeviceType,
+  getCurrentModelId,
+  getDeviceAnimationConfig,
+} from './config/devices';
 import type { DeviceAnimationConfig } from './config/devices';
+import { useSwipeToDismiss } from './hooks/useSwipeToDismiss';
+import { useNotificationAnimation } from './hooks/useNotificationAnimation';
+import { useNotificationLifecycle } from './hooks/useNotificationLifecycle';
+import { useReduceMotion } from './hooks/useReduceMotion';
+import CountdownBar from './components/CountdownBar';
+import NotificationActions from './components/NotificationActions';
+import NotificationIcon from './components/NotificationIcon';
+import ProgressBar from './components/ProgressBar';
+import type {
+  DismissReason,
+  NotificationAction,
+  NotificationType,
+} from './types';
+import { useNotificationTheme } from './config/theme';
+import { useNotificationType } from './config/notificationTypes';
+import { defaultAnimation } from './config/animations';
+import type { AnimationOption } from './config/animations';
 
 // ---------------------------------------------------------------------------
 // constants
 const BASE_DYNAMIC_ISLAND_MIN_WIDTH = 126;
 const BASE_DYNAMIC_ISLAND_MAX_WIDTH = 350;
-const ANIMATION_DURATION = 350;
-const DEFAULT_AUTO_HIDE_DELAY = 3000;
+
+const PROGRESS_MIN_WIDTH = 160; // Keeps the progress bar readable under short messages
+const SWIPE_EXIT_DISTANCE = 120; // Distance travelled upwards after a swipe
 const SAFE_TOP = Platform.OS === 'ios' ? 10 : 5;
 const CONTENT_PADDING_TOP = 25; // Padding top for content
 const CONTENT_PADDING_BOTTOM = 12; // Extra padding at the bottom
@@ -43,10 +65,16 @@ const CONTENT_PADDING_BOTTOM = 12; // Extra padding at the bottom
 export type DynamicIslandNotificationProps = {
   /** Text message to display in the notification */
   message: string;
-  /** Callback function called when notification is hidden */
-  onHide: () => void;
-  /** Type of notification: success, failed, or default */
-  type?: 'success' | 'failed' | 'default';
+  /** Callback function called when notification is hidden, with the reason */
+  onHide: (reason?: DismissReason) => void;
+  /** Called once when the notification starts appearing */
+  onShow?: () => void;
+  /** Called when the notification is pressed */
+  onPress?: () => void;
+  /** Called when the auto-hide delay elapses, before the hide animation */
+  onAutoHide?: () => void;
+  /** Type of notification: success, failed, loading, or default */
+  type?: NotificationType;
   /** Custom text color */
   textColor?: string;
   /** Whether to show a shadow effect */
@@ -55,8 +83,29 @@ export type DynamicIslandNotificationProps = {
   shadowColor?: string;
   /** Custom border color */
   borderColor?: string;
+  /** Custom background color */
+  backgroundColor?: string;
+  /**
+   * Icon displayed before the message, a React node or a registered icon
+   * name. Defaults to the icon of the type, null hides it.
+   */
+  icon?: React.ReactNode;
+  /**
+   * Accessory displayed before the icon, a React node or a registered icon
+   * name. With a trailing accessory it sits left of the camera instead.
+   */
+  leading?: React.ReactNode;
+  /**
+   * Accessory right of the camera, a React node or a registered icon name.
+   * The compact pill then keeps the middle clear for the cutout.
+   */
+  trailing?: React.ReactNode;
   /** Custom React component to display inside the notification */
   children?: React.ReactNode;
+  /** Content of the compact pill, replaces the message and custom content */
+  compact?: React.ReactNode;
+  /** Content of the expanded card, a tap or long-press expands the pill */
+  expanded?: React.ReactNode;
   /** Delay before auto-hiding in milliseconds */
   autoHideDelay?: number;
   /** Function to expose the close method for external control */
@@ -65,6 +114,14 @@ export type DynamicIslandNotificationProps = {
   disableAutoHide?: boolean;
   /** Enable haptic feedback when notification appears */
   enableHaptics?: boolean;
+  /** Show a bar with the time left before auto-hiding */
+  showCountdown?: boolean;
+  /** Completed part of a task from 0 to 1, shows a progress bar */
+  progress?: number;
+  /** Springs, durations and stagger: a preset name or overrides */
+  animation?: AnimationOption;
+  /** Buttons displayed below the message */
+  actions?: NotificationAction[];
 };
 
 // ---------------------------------------------------------------------------
@@ -76,50 +133,92 @@ export type DynamicIslandNotificationProps = {
 export default function DynamicIslandNotification({
   message,
   onHide,
+  onShow,
+  onPress,
+  onAutoHide,
   type = 'default',
   textColor,
   showShadow = false,
   borderColor,
+  backgroundColor,
   shadowColor,
+  icon,
+  leading,
+  trailing,
   children,
+  compact,
+  expanded,
   autoHideDelay,
   setClose,
   disableAutoHide,
   enableHaptics = true,
+  showCountdown = false,
+  progress,
+  actions,
+  animation,
 }: DynamicIslandNotificationProps) {
   const { width: windowWidth, height: windowHeight } = useWindowDimensions();
+  const theme = useNotificationTheme();
+  const typeConfig = useNotificationType(type);
+  const reduceMotion = useReduceMotion();
+  const {
+    enterSpring,
+    exitSpring,
+    contentSpring,
+    resizeSpring,
+    duration,
+    stagger,
+  } = useNotificationAnimation(defaultAnimation, animation);
   const [dynamicIslandHeight, setDynamicIslandHeight] = useState(0);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const expandable = !!expanded;
+  /** width shared by both slots, so the cutout stays centered */
+  const [slotWidth, setSlotWidth] = useState(0);
   const [deviceConfig, setDeviceConfig] = useState<DeviceAnimationConfig>(
-    getDeviceAnimationConfig(undefined)
+    getDeviceAnimationConfig(undefined, DeviceType.DYNAMIC_ISLAND)
   );
 
   // Detect device model and load appropriate configuration
   useEffect(() => {
     const loadDeviceConfig = async () => {
-      const deviceId = await Device.modelId;
+      const deviceId = getCurrentModelId();
       console.log('Device detected:', deviceId);
-      setDeviceConfig(getDeviceAnimationConfig(deviceId || undefined));
+      setDeviceConfig(
+        getDeviceAnimationConfig(
+          deviceId || undefined,
+          DeviceType.DYNAMIC_ISLAND
+        )
+      );
     };
 
     loadDeviceConfig();
   }, []);
 
   // ----- shared animation values
-  const expansion = useSharedValue(0);
+  const expansion = useSharedValue(0); // 0: minimal, 1: compact
+  const cardExpansion = useSharedValue(0); // 0: compact, 1: expanded card
   const textOpacity = useSharedValue(0);
   const textScale = useSharedValue(1);
   const completelyHidden = useSharedValue(0); // 0: visible, 1: hidden
+  const fade = useSharedValue(1); // cross-fade used when motion is reduced
 
-  /** Size of the expanded island, filled after first onLayout */
-  const contentSize = useSharedValue({
-    w: BASE_DYNAMIC_ISLAND_MAX_WIDTH,
-    h: deviceConfig.expandedHeight,
-  });
+  // Swipe up to dismiss, pulling down rubber-bands
+  const { gesture: swipeGesture, dragY } = useSwipeToDismiss('up', (velocity) =>
+    hideNotification('swipe', velocity)
+  );
 
-  /** ensure we measure only once to avoid loops  */
-  const measuredOnce = useRef(false);
+  /** Size of the expanded island, updated whenever the content is laid out */
+  const contentWidth = useSharedValue(BASE_DYNAMIC_ISLAND_MAX_WIDTH);
+  const contentHeight = useSharedValue(deviceConfig.expandedHeight);
+  /** Height of the expanded card, it always spans the maximum width */
+  const expandedContentHeight = useSharedValue(deviceConfig.expandedHeight);
+
+  /** first measure is applied instantly, later ones animate the resize */
+  const measured = useRef({ width: false, height: false });
   /** track if the component is mounted */
   const isMounted = useRef(true);
+  /** track if the hide animation already started */
+  const isHiding = useRef(false);
   /** track current height for icon positioning */
   const currentHeight = useRef(deviceConfig.expandedHeight);
   /** reference to the dynamic island view */
@@ -136,32 +235,90 @@ export default function DynamicIslandNotification({
   );
   const minHeight = Math.min(deviceConfig.initialHeight, windowHeight * 0.05);
 
+  // Compact content wins over custom content, which replaces the message.
+  // Without either, a trailing accessory turns the pill into slots around
+  // the camera.
+  const compactContent = compact ?? children;
+  const slotted = !compactContent && !!trailing;
+
+  // Re-fit the notification when the window is resized, e.g. in split-screen
+  useEffect(() => {
+    if (contentWidth.value > dynamicIslandMaxWidth) {
+      contentWidth.value = dynamicIslandMaxWidth;
+    }
+  }, [dynamicIslandMaxWidth, contentWidth]);
+
   // -----------------------------------------------------------------------
-  // LAYOUT CALLBACK – update height dynamically based on content
+  // LAYOUT CALLBACKS – content is laid out at the maximum width, so measuring
+  // it never depends on the animated size and cannot loop
   const onContentLayout = (event: LayoutChangeEvent) => {
     if (!isMounted.current) return;
 
-    const { width, height } = event.nativeEvent.layout;
+    const { height } = event.nativeEvent.layout;
 
-    // Always update height to adapt to content, adding extra padding
-    const newHeight = Math.max(
-      height + CONTENT_PADDING_TOP + CONTENT_PADDING_BOTTOM,
-      deviceConfig.expandedHeight
-    );
+    // Always update height to adapt to content, adding extra padding.
+    // Slots stay level with the camera, as tall as the minimal island.
+    const newHeight = slotted
+      ? Math.max(height, minHeight)
+      : Math.max(
+          height + CONTENT_PADDING_TOP + CONTENT_PADDING_BOTTOM,
+          deviceConfig.expandedHeight
+        );
 
     // Store current height for icon positioning
     currentHeight.current = newHeight;
 
-    let newWidth = dynamicIslandMaxWidth;
-    if (!measuredOnce.current) {
-      newWidth = Math.min(width + 40, dynamicIslandMaxWidth);
-      measuredOnce.current = true; // Only measure width once
+    if (measured.current.height) {
+      contentHeight.value = reduceMotion
+        ? withTiming(newHeight, { duration })
+        : withSpring(newHeight, resizeSpring);
+    } else {
+      contentHeight.value = newHeight;
+      measured.current.height = true;
     }
+  };
 
-    contentSize.value = {
-      w: newWidth,
-      h: newHeight,
-    };
+  // Width of the message or custom content, re-measured when it is updated
+  const onContentBodyLayout = (event: LayoutChangeEvent) => {
+    if (!isMounted.current) return;
+
+    const newWidth = Math.min(
+      event.nativeEvent.layout.width + 40,
+      dynamicIslandMaxWidth
+    );
+
+    if (measured.current.width) {
+      contentWidth.value = reduceMotion
+        ? withTiming(newWidth, { duration })
+        : withSpring(newWidth, resizeSpring);
+    } else {
+      contentWidth.value = newWidth;
+      measured.current.width = true;
+    }
+  };
+
+  // Both slots grow to the widest one
+  const onSlotLayout = (event: LayoutChangeEvent) => {
+    const { width } = event.nativeEvent.layout;
+    setSlotWidth((current) => Math.max(current, width));
+  };
+
+  // Height of the expanded card, laid out at the top of the island
+  const onExpandedContentLayout = (event: LayoutChangeEvent) => {
+    if (!isMounted.current) return;
+
+    const newHeight = Math.max(
+      event.nativeEvent.layout.height + CONTENT_PADDING_BOTTOM,
+      deviceConfig.expandedHeight
+    );
+
+    if (isExpanded) {
+      expandedContentHeight.value = reduceMotion
+        ? withTiming(newHeight, { duration })
+        : withSpring(newHeight, resizeSpring);
+    } else {
+      expandedContentHeight.value = newHeight;
+    }
   };
 
   // Get dynamic island dimensions for icon positioning
@@ -173,19 +330,45 @@ export default function DynamicIslandNotification({
 
   // -----------------------------------------------------------------------
   // hide routine
-  const hideNotification = () => {
+  const hideNotification = (
+    reason: DismissReason = 'programmatic',
+    velocity = 0
+  ) => {
+    // Ignore repeated calls while the hide animation is running
+    if (isHiding.current) return;
+    isHiding.current = true;
+
+    if (reason === 'timeout') {
+      onAutoHide?.();
+    }
+
+    // Reduced motion: fade out in place
+    if (reduceMotion) {
+      fade.value = withTiming(0, { duration }, () => {
+        completelyHidden.value = 1;
+        runOnJS(onHide)(reason);
+      });
+      return;
+    }
+
+    // A swipe keeps its momentum and collapses without waiting for the text
+    const collapseDelay = reason === 'swipe' ? 0 : stagger;
+    if (reason === 'swipe') {
+      dragY.value = withSpring(-SWIPE_EXIT_DISTANCE, {
+        velocity,
+        damping: 20,
+        stiffness: 200,
+      });
+    }
+
     // Fade out the text
-    textOpacity.value = withTiming(0, { duration: ANIMATION_DURATION / 2 });
-    textScale.value = withTiming(0.9, { duration: ANIMATION_DURATION / 2 });
+    textOpacity.value = withTiming(0, { duration: duration / 2 });
+    textScale.value = withTiming(0.9, { duration: duration / 2 });
 
     setTimeout(() => {
       // Collapse the island completely to a point
-      expansion.value = withSpring(0, {
-        damping: 8,
-        stiffness: 150,
-        mass: 0.8,
-        velocity: 3,
-      });
+      expansion.value = withSpring(0, exitSpring);
+      cardExpansion.value = withSpring(0, exitSpring);
 
       // Add a final shrink to zero size
       setTimeout(() => {
@@ -195,13 +378,36 @@ export default function DynamicIslandNotification({
 
           // Call the onHide callback
           setTimeout(() => {
-            runOnJS(onHide)();
+            runOnJS(onHide)(reason);
           }, 50);
         }
-      }, ANIMATION_DURATION - 50);
-    }, ANIMATION_DURATION / 2);
+      }, duration - 50);
+    }, collapseDelay);
   };
 
+  const hasActions = !!actions && actions.length > 0;
+  const {
+    close,
+    accessibilityProps,
+    autoHideProgress,
+    pauseAutoHide,
+    resumeAutoHide,
+  } = useNotificationLifecycle({
+    message,
+    type,
+    typeConfig,
+    interactive: hasActions,
+    autoHideDelay,
+    disableAutoHide,
+    enableHaptics,
+    reduceMotion,
+    duration,
+    contentSpring,
+    contentScale: textScale,
+    contentOpacity: textOpacity,
+    hide: hideNotification,
+  });
+
   // -----------------------------------------------------------------------
   // mount effect
   useEffect(() => {
@@ -212,54 +418,56 @@ export default function DynamicIslandNotification({
 
     // Expose close function if setClose is provided
     if (setClose) {
-      setClose(hideNotification);
+      setClose(close);
     }
 
-    expansion.value = withSpring(1, {
-      damping: 10,
-      stiffness: 100,
-      velocity: 3,
-      mass: 0.5,
-    });
-
-    // Trigger haptic feedback when notification appears
-    if (enableHaptics) {
-      if (type === 'success') {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      } else if (type === 'failed') {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      } else {
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-      }
-    }
+    // Let the caller know the notification is appearing
+    onShow?.();
 
-    setTimeout(() => {
-      if (!isMounted.current) return;
+    // Reduced motion: appear at full size and fade in
+    if (reduceMotion) {
+      expansion.value = 1;
+      textScale.value = 1;
+      textOpacity.value = 1;
+      fade.value = 0;
+      fade.value = withTiming(1, { duration });
+    } else {
+      expansion.value = withSpring(1, enterSpring);
 
-      textOpacity.value = withTiming(1, { duration: ANIMATION_DURATION / 2 });
-      textScale.value = withSpring(1, {
-        damping: 12,
-        stiffness: 120,
-      });
-    }, ANIMATION_DURATION / 2);
-
-    // Only set auto-hide timeout if disableAutoHide is not true
-    let timeout: NodeJS.Timeout | undefined;
-    if (!disableAutoHide) {
-      timeout = setTimeout(
-        hideNotification,
-        autoHideDelay || DEFAULT_AUTO_HIDE_DELAY
-      );
+      setTimeout(() => {
+        if (!isMounted.current) return;
+
+        textOpacity.value = withTiming(1, { duration: duration / 2 });
+        textScale.value = withSpring(1, contentSpring);
+      }, stagger);
     }
 
     return () => {
       isMounted.current = false;
-      if (timeout) clearTimeout(timeout);
     };
   }, []);
 
+  // Grow into the expanded card or return to the compact pill. The
+  // auto-hide waits while the card is open.
+  const setExpanded = (value: boolean) => {
+    if (!expandable || isHiding.current || value === isExpanded) return;
+
+    setIsExpanded(value);
+    const target = value ? 1 : 0;
+    cardExpansion.value = reduceMotion
+      ? withTiming(target, { duration })
+      : withSpring(target, resizeSpring);
+
+    if (value) {
+      pauseAutoHide();
+    } else {
+      resumeAutoHide();
+    }
+  };
+
   // -----------------------------------------------------------------------
   // animated styles
+  const expandedRadius = theme.radii.dynamicIsland ?? deviceConfig.borderRadius;
   const dynamicIslandStyle = useAnimatedStyle(() => {
     // When completely hidden, force size to 0
     if (completelyHidden.value === 1) {
@@ -272,25 +480,39 @@ export default function DynamicIslandNotification({
       };
     }
 
-    // Get the animated dimensions
+    // Expandable notifications open into a card of the maximum width,
+    // the others stop at their compact size
+    const expandedWidth = expandable
+      ? dynamicIslandMaxWidth
+      : contentWidth.value;
+    const expandedHeight = expandable
+      ? expandedContentHeight.value
+      : contentHeight.value;
+
+    // Size between minimal (0), compact (1) and expanded (2). The entrance
+    // overshoot stops at the compact size, the card has its own value.
+    const stage =
+      Math.min(expansion.value, 1) + Math.max(cardExpansion.value, 0);
+
+    // Get the animated dimensions: minimal, compact and expanded
     const width = interpolate(
-      expansion.value,
-      [0, 1],
-      [dynamicIslandMinWidth, contentSize.value.w],
+      stage,
+      [0, 1, 2],
+      [dynamicIslandMinWidth, contentWidth.value, expandedWidth],
       { extrapolateRight: 'clamp' }
     );
 
     const height = interpolate(
-      expansion.value,
-      [0, 1],
-      [minHeight, contentSize.value.h],
+      stage,
+      [0, 1, 2],
+      [minHeight, contentHeight.value, expandedHeight],
       { extrapolateRight: 'clamp' }
     );
 
     const borderRadius = interpolate(
       expansion.value,
       [0, 1],
-      [20, deviceConfig.borderRadius],
+      [20, expandedRadius],
       { extrapolateRight: 'clamp' }
     );
 
@@ -301,62 +523,74 @@ export default function DynamicIslandNotification({
       { extrapolateRight: 'clamp' }
     );
 
-    const opacity = interpolate(expansion.value, [0, 0.1], [0, 1], {
-      extrapolateLeft: 'clamp',
-      extrapolateRight: 'clamp',
-    });
+    const opacity =
+      interpolate(expansion.value, [0, 0.1], [0, 1], {
+        extrapolateLeft: 'clamp',
+        extrapolateRight: 'clamp',
+      }) * fade.value;
 
     return {
       width,
       height,
       borderRadius,
       opacity,
-      transform: [{ scale }, { translateY: -2 }],
+      transform: [{ scale }, { translateY: dragY.value - 2 }],
     };
   });
 
+  // The compact content fades out while the expanded card fades in
   const contentStyle = useAnimatedStyle(() => ({
-    opacity: textOpacity.value,
+    opacity: expandable
+      ? textOpacity.value *
+        interpolate(cardExpansion.value, [0, 1], [1, 0], {
+          extrapolateLeft: 'clamp',
+          extrapolateRight: 'clamp',
+        })
+      : textOpacity.value,
     transform: [
-      { translateY: interpolate(textOpacity.value, [0, 1], [10, 0]) },
+      {
+        translateY: reduceMotion
+          ? 0
+          : interpolate(textOpacity.value, [0, 1], [10, 0]),
+      },
       { scale: textScale.value },
     ],
   }));
 
+  const expandedContentStyle = useAnimatedStyle(() => ({
+    opacity:
+      textOpacity.value *
+      interpolate(cardExpansion.value, [0, 1], [0, 1], {
+        extrapolateLeft: 'clamp',
+        extrapolateRight: 'clamp',
+      }),
+    transform: [{ scale: textScale.value }],
+  }));
+
   // -----------------------------------------------------------------------
   // helpers
-  const color = (() => {
-    switch (type) {
-      case 'success':
-        return textColor || '#4CAF50';
-      case 'failed':
-        return textColor || '#F44336';
-      default:
-        return textColor || '#FFFFFF';
-    }
-  })();
+  const typeColors = theme.colors[type];
+  const color = textColor || typeColors?.text || theme.text.dynamicIsland;
+
+  // Per-call icon wins over the icon of the type, null hides it
+  const resolvedIcon = icon !== undefined ? icon : typeConfig.icon;
+
+  // Determine background color, custom backgroundColor prop first
+  const getBackgroundColor = () =>
+    backgroundColor || theme.background.dynamicIsland;
 
   // Determine border color based on type and custom borderColor prop
-  const getBorderColor = () => {
-    if (borderColor) return borderColor;
-
-    switch (type) {
-      case 'success':
-        return 'rgba(76, 175, 80, 0.3)'; // Default green border for success
-      case 'failed':
-        return 'rgba(244, 67, 54, 0.3)'; // Default red border for failed
-      default:
-        return 'rgba(255, 255, 255, 0.1)'; // Default subtle white border
-    }
-  };
+  const getBorderColor = () =>
+    borderColor || typeColors?.border || theme.border.color.dynamicIsland;
 
+  const shadowTokens = theme.shadow.dynamicIsland;
   const shadowStyle = showShadow
     ? {
-        shadowColor: shadowColor || color,
-        shadowOffset: { width: 0, height: 0 },
-        shadowOpacity: 0.3,
-        shadowRadius: 15,
-        elevation: 25,
+        shadowColor: shadowColor || shadowTokens.color || color,
+        shadowOffset: shadowTokens.offset,
+        shadowOpacity: shadowTokens.opacity,
+        shadowRadius: shadowTokens.radius,
+        elevation: shadowTokens.elevation,
       }
     : {};
 
@@ -371,42 +605,163 @@ export default function DynamicIslandNotification({
       />
 
       <View style={styles.dynamicIslandContainer}>
-        <Pressable style={styles.pressableContainer} onPress={hideNotification}>
-          <Animated.View
-            style={[
-              styles.dynamicIsland,
-              dynamicIslandStyle,
-              shadowStyle,
-              {
-                borderColor: getBorderColor(),
-              },
-              type === 'success' && styles.successIsland,
-              type === 'failed' && styles.failedIsland,
-            ]}
-            onLayout={onDynamicIslandLayout}
-            ref={dynamicIslandRef}
-          >
+        <Pressable
+          style={styles.pressableContainer}
+          {...accessibilityProps}
+          accessibilityState={expandable ? { expanded: isExpanded } : undefined}
+          onPressIn={pauseAutoHide}
+          onPressOut={() => {
+            // An open card keeps the auto-hide paused
+            if (!isExpanded) resumeAutoHide();
+          }}
+          onPress={() => {
+            onPress?.();
+            if (expandable) {
+              setExpanded(!isExpanded);
+            } else {
+              hideNotification('tap');
+            }
+          }}
+          onLongPress={expandable ? () => setExpanded(true) : undefined}
+        >
+          <GestureDetector gesture={swipeGesture}>
             <Animated.View
-              style={[styles.notificationContent, contentStyle]}
-              onLayout={onContentLayout}
+              style={[
+                styles.dynamicIsland,
+                dynamicIslandStyle,
+                shadowStyle,
+                {
+                  backgroundColor: getBackgroundColor(),
+                  borderColor: getBorderColor(),
+                  borderWidth: theme.border.width.dynamicIsland,
+                },
+                type === 'success' && styles.successIsland,
+                type === 'failed' && styles.failedIsland,
+              ]}
+              onLayout={onDynamicIslandLayout}
+              ref={dynamicIslandRef}
             >
-              {children ? (
-                <View style={styles.customContentContainer}>{children}</View>
-              ) : (
-                <View style={styles.contentRow}>
-                  <Text
-                    style={[
-                      styles.notificationText,
-                      { color },
-                      type !== 'default' && styles.accentedText,
-                    ]}
-                  >
-                    {message}
-                  </Text>
+              <Animated.View
+                style={[
+                  styles.notificationContent,
+                  slotted && styles.slottedContent,
+                  { width: dynamicIslandMaxWidth },
+                  contentStyle,
+                ]}
+                pointerEvents={isExpanded ? 'none' : 'auto'}
+                onLayout={onContentLayout}
+              >
+                <View style={styles.contentBody} onLayout={onContentBodyLayout}>
+                  {compactContent ? (
+                    <View style={styles.customContentContainer}>
+                      {compactContent}
+                    </View>
+                  ) : slotted ? (
+                    <View style={[styles.slotRow, { height: minHeight }]}>
+                      <View
+                        style={[
+                          styles.slot,
+                          styles.leadingSlot,
+                          { minWidth: slotWidth },
+                        ]}
+                        onLayout={onSlotLayout}
+                      >
+                        {!!(leading || resolvedIcon) && (
+                          <NotificationIcon
+                            icon={leading || resolvedIcon}
+                            color={color}
+                          />
+                        )}
+                      </View>
+                      {/* Kept clear for the camera */}
+                      <View style={{ width: dynamicIslandMinWidth }} />
+                      <View
+                        style={[
+                          styles.slot,
+                          styles.trailingSlot,
+                          { minWidth: slotWidth },
+                        ]}
+                        onLayout={onSlotLayout}
+                      >
+                        <NotificationIcon icon={trailing} color={color} />
+                      </View>
+                    </View>
+                  ) : (
+                    <View style={styles.contentRow}>
+                      {!!leading && (
+                        <View style={styles.leading}>
+                          <NotificationIcon icon={leading} color={color} />
+                        </View>
+                      )}
+                      {!!resolvedIcon && (
+                        <View style={styles.icon}>
+                          <NotificationIcon icon={resolvedIcon} color={color} />
+                        </View>
+                      )}
+                      <Text
+                        style={[
+                          styles.notificationText,
+                          {
+                            color,
+                            fontSize: theme.typography.fontSize.dynamicIsland,
+                            fontWeight: theme.typography.fontWeight,
+                          },
+                          type !== 'default' && [
+                            styles.accentedText,
+                            {
+                              fontSize: theme.typography.accentFontSize,
+                              fontWeight: theme.typography.accentFontWeight,
+                            },
+                          ],
+                        ]}
+                      >
+                        {message}
+                      </Text>
+                    </View>
+                  )}
+                  {progress !== undefined && (
+                    <ProgressBar
+                      value={progress}
+                      color={color}
+                      trackColor={theme.actionBackground.dynamicIsland}
+                      style={styles.progress}
+                    />
+                  )}
+                  {hasActions && (
+                    <NotificationActions
+                      actions={actions}
+                      color={theme.text.dynamicIsland}
+                      backgroundColor={theme.actionBackground.dynamicIsland}
+                      onDismiss={() => hideNotification('action')}
+                      style={styles.actions}
+                    />
+                  )}
                 </View>
+              </Animated.View>
+              {expandable && (
+                <Animated.View
+                  style={[
+                    styles.notificationContent,
+                    styles.expandedContent,
+                    { width: dynamicIslandMaxWidth },
+                    expandedContentStyle,
+                  ]}
+                  pointerEvents={isExpanded ? 'box-none' : 'none'}
+                  onLayout={onExpandedContentLayout}
+                >
+                  <View style={styles.customContentContainer}>{expanded}</View>
+                </Animated.View>
+              )}
+              {showCountdown && (
+                <CountdownBar
+                  progress={autoHideProgress}
+                  color={color}
+                  trackColor={theme.actionBackground.dynamicIsland}
+                  style={styles.countdown}
+                />
               )}
             </Animated.View>
-          </Animated.View>
+          </GestureDetector>
         </Pressable>
       </View>
     </>
@@ -432,12 +787,10 @@ const styles = StyleSheet.create({
     overflow: 'visible', // Changed to visible to allow shadow to extend
   },
   dynamicIsland: {
-    backgroundColor: 'black',
     boxShadow: '0 0 10px 0 rgba(0, 0, 0, 0.5)',
     overflow: 'hidden',
     alignItems: 'center',
     justifyContent: 'center',
-    borderWidth: 0.5,
   },
   successIsland: {
     // No border color here - using getBorderColor function
@@ -446,15 +799,48 @@ const styles = StyleSheet.create({
     // No border color here - using getBorderColor function
   },
   notificationContent: {
-    width: '100%',
     paddingHorizontal: 20,
     paddingTop: CONTENT_PADDING_TOP,
     paddingBottom: 10,
     alignItems: 'center',
     justifyContent: 'center',
   },
+  slottedContent: {
+    paddingTop: 0,
+    paddingBottom: 0,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  slot: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  leadingSlot: {
+    justifyContent: 'flex-start',
+  },
+  trailingSlot: {
+    justifyContent: 'flex-end',
+  },
+  expandedContent: {
+    position: 'absolute',
+    top: 0,
+  },
+  contentBody: {
+    maxWidth: '100%',
+    alignItems: 'center',
+  },
+  actions: {
+    marginTop: 10,
+  },
+  progress: {
+    alignSelf: 'stretch',
+    minWidth: PROGRESS_MIN_WIDTH,
+    marginTop: 8,
+  },
   customContentContainer: {
-    width: '100%',
+    maxWidth: '100%',
     alignItems: 'center',
     justifyContent: 'center',
     paddingBottom: CONTENT_PADDING_BOTTOM - 10, // Subtract existing padding
@@ -463,17 +849,25 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    width: '100%',
+    maxWidth: '100%',
     paddingBottom: CONTENT_PADDING_BOTTOM - 10, // Subtract existing padding
   },
+  countdown: {
+    left: 24,
+    right: 24,
+    bottom: 6,
+  },
+  leading: {
+    marginRight: 8,
+  },
+  icon: {
+    marginRight: 8,
+  },
   notificationText: {
-    fontSize: 16,
-    fontWeight: '600',
+    flexShrink: 1,
     textAlign: 'center',
   },
   accentedText: {
-    fontSize: 17,
-    fontWeight: '700',
     textShadowColor: 'rgba(0,0,0,0.3)',
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 2,
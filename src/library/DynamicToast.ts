@@ -0,0 +1,129 @@
+import type React from 'react';
+import type {
+  NotificationContextType,
+  NotificationOptions,
+  NotificationUpdate,
+  ProgressHandle,
+  ProgressOptions,
+  PromiseMessages,
+} from './index';
+import { createNotificationId } from './utils/notificationId';
+import { createProgressHandle } from './utils/progressHandle';
+import type { NotificationId } from './utils/notificationId';
+import type { NotificationType } from './types';
+
+/**
+ * Reference to the API of the mounted NotificationProvider
+ * Filled by the provider on mount, emptied on unmount
+ */
+type NotificationApiRef = { current: NotificationContextType };
+
+let providerRef: NotificationApiRef | null = null;
+
+/** Calls made before any provider was mounted, replayed on mount */
+let pendingCalls: Array<(api: NotificationContextType) => void> = [];
+
+/**
+ * Run a call against the mounted provider, or buffer it until one mounts
+ */
+const dispatch = (call: (api: NotificationContextType) => void) => {
+  if (providerRef) {
+    call(providerRef.current);
+  } else {
+    pendingCalls.push(call);
+  }
+};
+
+/**
+ * Attach a provider so imperative calls are routed to it
+ * Used internally by NotificationProvider
+ */
+export const attachNotificationRef = (ref: NotificationApiRef) => {
+  providerRef = ref;
+
+  const calls = pendingCalls;
+  pendingCalls = [];
+  calls.forEach((call) => call(ref.current));
+};
+
+/**
+ * Detach a provider when it unmounts
+ * Used internally by NotificationProvider
+ */
+export const detachNotificationRef = (ref: NotificationApiRef) => {
+  if (providerRef === ref) {
+    providerRef = null;
+  }
+};
+
+/**
+ * Dispatch a show call with an id assigned upfront, so the id can be
+ * returned even when the call is buffered
+ */
+const showWithId = (
+  options: NotificationOptions | undefined,
+  call: (api: NotificationContextType, options: NotificationOptions) => void
+): NotificationId => {
+  const withId = { ...options, id: options?.id || createNotificationId() };
+  dispatch((api) => call(api, withId));
+  return withId.id;
+};
+
+/**
+ * Imperative notification API usable outside React components
+ * (redux sagas, API clients, navigation listeners...).
+ * Calls made before the NotificationProvider mounts are buffered.
+ */
+export const DynamicToast = {
+  /** Display a success notification, returns its id */
+  success: (message: string, options?: NotificationOptions) =>
+    showWithId(options, (api, withId) => api.success(message, withId)),
+  /** Display a failure/error notification, returns its id */
+  failed: (message: string, options?: NotificationOptions) =>
+    showWithId(options, (api, withId) => api.failed(message, withId)),
+  /** Display a toast notification, returns its id */
+  toaster: (message: string, options?: NotificationOptions) =>
+    showWithId(options, (api, withId) => api.toaster(message, withId)),
+  /** Display a warning notification, returns its id */
+  warning: (message: string, options?: NotificationOptions) =>
+    showWithId(options, (api, withId) => api.show(message, 'warning', withId)),
+  /** Display an info notification, returns its id */
+  info: (message: string, options?: NotificationOptions) =>
+    showWithId(options, (api, withId) => api.show(message, 'info', withId)),
+  /** Display a notification of any registered type, returns its id */
+  show: (
+    message: string,
+    type: NotificationType,
+    options?: NotificationOptions
+  ) => showWithId(options, (api, withId) => api.show(message, type, withId)),
+  /** Display a notification with custom content, returns its id */
+  showCustom: (children: React.ReactNode, options?: NotificationOptions) =>
+    showWithId(options, (api, withId) => api.showCustom(children, withId)),
+  /** Display a loading notification that morphs once the promise settles */
+  promise: <T>(
+    promise: Promise<T>,
+    messages: PromiseMessages<T>,
+    options?: NotificationOptions
+  ): Promise<T> => {
+    dispatch((api) => {
+      api.promise(promise, messages, options);
+    });
+    return promise;
+  },
+  /** Display a progress notification, returns the handle controlling it */
+  progress: (message: string, options?: ProgressOptions): ProgressHandle => {
+    const id = showWithId(options, (api, withId) => {
+      api.progress(message, withId);
+    });
+    return createProgressHandle(id, DynamicToast.update);
+  },
+  /** Change the message, type or content of a live notification */
+  update: (id: NotificationId, changes: NotificationUpdate) =>
+    dispatch((api) => api.update(id, changes)),
+  /** Close a specific notification, or remove it from the queue */
+  dismiss: (id: NotificationId) => dispatch((api) => api.dismiss(id)),
+  /** Hide the active notification */
+  hide: () => dispatch((api) => api.hide()),
+  /** Remove every notification waiting in the queue */
+  clearQueue: () => dispatch((api) => api.clearQueue()),
+};
@@ -1,4 +1,5 @@
 // Notification Component for devices with notch (iPhone X, 11, 12, 13, etc.)
+// and, with the punchHole shape, for Android punch-hole cameras
 import { useEffect, useRef, useState } from 'react';
 import {
   Text,
@@ -18,20 +19,53 @@ import Animated, {
   interpolate,
   runOnJS,
 } from 'react-native-reanimated';
-import * as Haptics from 'expo-haptics';
-import * as Device from 'expo-device';
-import { getDeviceAnimationConfig, DeviceType } from './config/devices';
-import type { DeviceAnimationConfig } from './config/devices';
+import { GestureDetector } from 'react-native-gesture-handler';
+
+import {
+  getCurrentModelId,
+  getDeviceAnimationConfig,
+  getDisplayCutout,
+  DeviceType,
+} from './config/devices';
+import type { DeviceAnimationConfig, DisplayCutout } from './config/devices';
+import { useSwipeToDismiss } from './hooks/useSwipeToDismiss';
+import { useNotificationAnimation } from './hooks/useNotificationAnimation';
+import { useNotificationLifecycle } from './hooks/useNotificationLifecycle';
+import { useReduceMotion } from './hooks/useReduceMotion';
+import CountdownBar from './components/CountdownBar';
+import NotificationActions from './components/NotificationActions';
+import NotificationIcon from './components/NotificationIcon';
+import ProgressBar from './components/ProgressBar';
+import type {
+  DismissReason,
+  NotificationAction,
+  NotificationType,
+} from './types';
+import { useNotificationTheme } from './config/theme';
+import { useNotificationType } from './config/notificationTypes';
+import { defaultAnimation } from './config/animations';
+import type { AnimationOption } from './config/animations';
 
 // ---------------------------------------------------------------------------
 // constants
-const ANIMATION_DURATION = 350;
-const DEFAULT_AUTO_HIDE_DELAY = 3000;
+
+const PROGRESS_MIN_WIDTH = 160; // Keeps the progress bar readable under short messages
+const SWIPE_EXIT_DISTANCE = 120; // Distance travelled upwards after a swipe
 const SAFE_TOP = 0; // Start from the absolute top of the screen
 const NOTCH_HEIGHT = Platform.OS === 'ios' ? 44 : 30; // Approximate height of iPhone notch
 const CONTENT_PADDING_TOP = NOTCH_HEIGHT + 5; // Additional padding from notch
 const CONTENT_PADDING_BOTTOM = 10;
 const NOTCH_WIDTH = 170; // Approximate width of iPhone notch
+const CUTOUT_MARGIN = 6; // Space kept around a punch-hole camera once expanded
+
+/**
+ * Camera cutout the notification grows out of
+ * - notch: the notch of iPhone X to 13, the notification stays attached to
+ *   the top edge
+ * - punchHole: a circular camera, the notification grows out of it into a
+ *   card surrounding it
+ */
+export type CutoutShape = 'notch' | 'punchHole';
 
 // ---------------------------------------------------------------------------
 // props - same interface as DynamicIslandNotification for compatibility
@@ -42,10 +76,16 @@ const NOTCH_WIDTH = 170; // Approximate width of iPhone notch
 export type NotchNotificationProps = {
   /** Text message to display in the notification */
   message: string;
-  /** Callback function called when notification is hidden */
-  onHide: () => void;
-  /** Type of notification: success, failed, or default */
-  type?: 'success' | 'failed' | 'default';
+  /** Callback function called when notification is hidden, with the reason */
+  onHide: (reason?: DismissReason) => void;
+  /** Called once when the notification starts appearing */
+  onShow?: () => void;
+  /** Called when the notification is pressed */
+  onPress?: () => void;
+  /** Called when the auto-hide delay elapses, before the hide animation */
+  onAutoHide?: () => void;
+  /** Type of notification: success, failed, loading, or default */
+  type?: NotificationType;
   /** Custom text color */
   textColor?: string;
   /** Whether to show a shadow effect */
@@ -54,6 +94,17 @@ export type NotchNotificationProps = {
   shadowColor?: string;
   /** Custom border color */
   borderColor?: string;
+  /** Custom background color */
+  backgroundColor?: string;
+  /**
+   * Icon displayed before the message, a React node or a registered icon
+   * name. Defaults to the icon of the type, null hides it.
+   */
+  icon?: React.ReactNode;
+  /** Accessory displayed before the icon, a React node or a registered icon name */
+  leading?: React.ReactNode;
+  /** Accessory displayed after the message, a React node or a registered icon name */
+  trailing?: React.ReactNode;
   /** Custom React component to display inside the notification */
   children?: React.ReactNode;
   /** Delay before auto-hiding in milliseconds */
@@ -64,6 +115,18 @@ export type NotchNotificationProps = {
   disableAutoHide?: boolean;
   /** Enable haptic feedback when notification appears */
   enableHaptics?: boolean;
+  /** Show a bar with the time left before auto-hiding */
+  showCountdown?: boolean;
+  /** Completed part of a task from 0 to 1, shows a progress bar */
+  progress?: number;
+  /** Springs, durations and stagger: a preset name or overrides */
+  animation?: AnimationOption;
+  /** Buttons displayed below the message */
+  actions?: NotificationAction[];
+  /** Shape of the camera cutout, default notch */
+  shape?: CutoutShape;
+  /** Punch-hole camera to grow out of, defaults to the cutout of the device */
+  cutout?: DisplayCutout;
 };
 
 // ---------------------------------------------------------------------------
@@ -76,52 +139,88 @@ export type NotchNotificationProps = {
 export default function NotchNotification({
   message,
   onHide,
+  onShow,
+  onPress,
+  onAutoHide,
   type = 'default',
   textColor,
   showShadow = false,
   borderColor,
+  backgroundColor,
   shadowColor,
+  icon,
+  leading,
+  trailing,
   children,
   autoHideDelay,
   setClose,
   disableAutoHide,
   enableHaptics = true,
+  showCountdown = false,
+  progress,
+  actions,
+  animation,
+  shape = 'notch',
+  cutout,
 }: NotchNotificationProps) {
   const { width: windowWidth, height: windowHeight } = useWindowDimensions();
+  const theme = useNotificationTheme();
+  const typeConfig = useNotificationType(type);
+  const reduceMotion = useReduceMotion();
+  const {
+    enterSpring,
+    exitSpring,
+    contentSpring,
+    resizeSpring,
+    duration,
+    stagger,
+  } = useNotificationAnimation(defaultAnimation, animation);
   const [notificationHeight, setNotificationHeight] = useState(0);
+  const punchHole = shape === 'punchHole';
+  const deviceType = punchHole ? DeviceType.PUNCH_HOLE : DeviceType.NOTCH;
   const [deviceConfig, setDeviceConfig] = useState<DeviceAnimationConfig>(
-    getDeviceAnimationConfig(undefined, DeviceType.NOTCH)
+    getDeviceAnimationConfig(undefined, deviceType)
+  );
+  const [deviceCutout, setDeviceCutout] = useState<DisplayCutout>(
+    getDisplayCutout(undefined)
   );
 
   // Detect device model and load appropriate configuration
   useEffect(() => {
     const loadDeviceConfig = async () => {
-      const deviceId = await Device.modelId;
+      const deviceId = getCurrentModelId();
       console.log('Device detected (notch):', deviceId);
       setDeviceConfig(
-        getDeviceAnimationConfig(deviceId || undefined, DeviceType.NOTCH)
+        getDeviceAnimationConfig(deviceId || undefined, deviceType)
       );
+      setDeviceCutout(getDisplayCutout(deviceId || undefined));
     };
 
     loadDeviceConfig();
-  }, []);
+  }, [deviceType]);
 
   // ----- shared animation values
   const expansion = useSharedValue(0);
   const textOpacity = useSharedValue(0);
   const textScale = useSharedValue(1);
   const completelyHidden = useSharedValue(0); // 0: visible, 1: hidden
+  const fade = useSharedValue(1); // cross-fade used when motion is reduced
 
-  /** Size of the expanded notification, filled after first onLayout */
-  const contentSize = useSharedValue({
-    w: windowWidth * deviceConfig.maxWidthRatio,
-    h: deviceConfig.expandedHeight,
-  });
+  // Swipe up to dismiss, pulling down rubber-bands
+  const { gesture: swipeGesture, dragY } = useSwipeToDismiss('up', (velocity) =>
+    hideNotification('swipe', velocity)
+  );
+
+  /** Size of the expanded notification, updated whenever the content is laid out */
+  const contentWidth = useSharedValue(windowWidth * deviceConfig.maxWidthRatio);
+  const contentHeight = useSharedValue(deviceConfig.expandedHeight);
 
-  /** ensure we measure only once to avoid loops  */
-  const measuredOnce = useRef(false);
+  /** first measure is applied instantly, later ones animate the resize */
+  const measured = useRef({ width: false, height: false });
   /** track if the component is mounted */
   const isMounted = useRef(true);
+  /** track if the hide animation already started */
+  const isHiding = useRef(false);
   /** track current height for layout */
   const currentHeight = useRef(deviceConfig.expandedHeight);
   /** reference to the notification view */
@@ -138,38 +237,75 @@ export default function NotchNotification({
   );
   const minHeight = Math.min(deviceConfig.initialHeight, windowHeight * 0.04);
 
-  // Initial position to match the notch position
-  const notchPosition = {
-    top: 0,
-    left: (windowWidth - notchMinWidth) / 2,
-  };
+  // Re-fit the notification when the window is resized, e.g. in split-screen
+  useEffect(() => {
+    if (contentWidth.value > notchMaxWidth) {
+      contentWidth.value = notchMaxWidth;
+    }
+  }, [notchMaxWidth, contentWidth]);
+
+  // Initial shape matching the notch, or the punch-hole camera. A notch
+  // expands down from the top edge, a punch-hole into a card around it.
+  const origin: DisplayCutout = punchHole
+    ? (cutout ?? deviceCutout)
+    : {
+        x: (windowWidth - notchMinWidth) / 2,
+        y: 0,
+        width: notchMinWidth,
+        height: minHeight,
+      };
+  const expandedTop = punchHole ? Math.max(origin.y - CUTOUT_MARGIN, 0) : 0;
+  const contentPaddingTop = punchHole
+    ? origin.y + origin.height + CUTOUT_MARGIN - expandedTop
+    : CONTENT_PADDING_TOP;
 
   // -----------------------------------------------------------------------
-  // LAYOUT CALLBACK – update height dynamically based on content
+  // LAYOUT CALLBACKS – content is laid out at the maximum width, so measuring
+  // it never depends on the animated size and cannot loop
   const onContentLayout = (event: LayoutChangeEvent) => {
     if (!isMounted.current) return;
 
-    const { width, height } = event.nativeEvent.layout;
+    const { height } = event.nativeEvent.layout;
 
-    // Always update height to adapt to content, adding extra padding
+    // Always update height to adapt to content, adding extra padding below
+    // the notch. Around a punch-hole, the padding is already laid out.
     const newHeight = Math.max(
-      height + CONTENT_PADDING_TOP + CONTENT_PADDING_BOTTOM,
+      punchHole
+        ? height
+        : height + CONTENT_PADDING_TOP + CONTENT_PADDING_BOTTOM,
       deviceConfig.expandedHeight
     );
 
     // Store current height for positioning
     currentHeight.current = newHeight;
 
-    let newWidth = notchMaxWidth;
-    if (!measuredOnce.current) {
-      newWidth = Math.min(width + 40, notchMaxWidth);
-      measuredOnce.current = true; // Only measure width once
+    if (measured.current.height) {
+      contentHeight.value = reduceMotion
+        ? withTiming(newHeight, { duration })
+        : withSpring(newHeight, resizeSpring);
+    } else {
+      contentHeight.value = newHeight;
+      measured.current.height = true;
     }
+  };
 
-    contentSize.value = {
-      w: newWidth,
-      h: newHeight,
-    };
+  // Width of the message or custom content, re-measured when it is updated
+  const onContentBodyLayout = (event: LayoutChangeEvent) => {
+    if (!isMounted.current) return;
+
+    const newWidth = Math.min(
+      event.nativeEvent.layout.width + 40,
+      notchMaxWidth
+    );
+
+    if (measured.current.width) {
+      contentWidth.value = reduceMotion
+        ? withTiming(newWidth, { duration })
+        : withSpring(newWidth, resizeSpring);
+    } else {
+      contentWidth.value = newWidth;
+      measured.current.width = true;
+    }
   };
 
   // Get notification dimensions
@@ -181,19 +317,44 @@ export default function NotchNotification({
 
   // -----------------------------------------------------------------------
   // hide routine
-  const hideNotification = () => {
+  const hideNotification = (
+    reason: DismissReason = 'programmatic',
+    velocity = 0
+  ) => {
+    // Ignore repeated calls while the hide animation is running
+    if (isHiding.current) return;
+    isHiding.current = true;
+
+    if (reason === 'timeout') {
+      onAutoHide?.();
+    }
+
+    // Reduced motion: fade out in place
+    if (reduceMotion) {
+      fade.value = withTiming(0, { duration }, () => {
+        completelyHidden.value = 1;
+        runOnJS(onHide)(reason);
+      });
+      return;
+    }
+
+    // A swipe keeps its momentum and collapses without waiting for the text
+    const collapseDelay = reason === 'swipe' ? 0 : stagger;
+    if (reason === 'swipe') {
+      dragY.value = withSpring(-SWIPE_EXIT_DISTANCE, {
+        velocity,
+        damping: 20,
+        stiffness: 200,
+      });
+    }
+
     // Fade out the text
-    textOpacity.value = withTiming(0, { duration: ANIMATION_DURATION / 2 });
-    textScale.value = withTiming(0.9, { duration: ANIMATION_DURATION / 2 });
+    textOpacity.value = withTiming(0, { duration: duration / 2 });
+    textScale.value = withTiming(0.9, { duration: duration / 2 });
 
     setTimeout(() => {
       // Collapse the notification completely
-      expansion.value = withSpring(0, {
-        damping: 8,
-        stiffness: 150,
-        mass: 0.8,
-        velocity: 3,
-      });
+      expansion.value = withSpring(0, exitSpring);
 
       // Add a final shrink to zero size
       setTimeout(() => {
@@ -203,13 +364,36 @@ export default function NotchNotification({
 
           // Call the onHide callback
           setTimeout(() => {
-            runOnJS(onHide)();
+            runOnJS(onHide)(reason);
           }, 50);
         }
-      }, ANIMATION_DURATION - 50);
-    }, ANIMATION_DURATION / 2);
+      }, duration - 50);
+    }, collapseDelay);
   };
 
+  const hasActions = !!actions && actions.length > 0;
+  const {
+    close,
+    accessibilityProps,
+    autoHideProgress,
+    pauseAutoHide,
+    resumeAutoHide,
+  } = useNotificationLifecycle({
+    message,
+    type,
+    typeConfig,
+    interactive: hasActions,
+    autoHideDelay,
+    disableAutoHide,
+    enableHaptics,
+    reduceMotion,
+    duration,
+    contentSpring,
+    contentScale: textScale,
+    contentOpacity: textOpacity,
+    hide: hideNotification,
+  });
+
   // -----------------------------------------------------------------------
   // mount effect
   useEffect(() => {
@@ -221,54 +405,40 @@ export default function NotchNotification({
 
     // Expose close function if setClose is provided
     if (setClose) {
-      setClose(hideNotification);
+      setClose(close);
     }
 
-    expansion.value = withSpring(1, {
-      damping: 10,
-      stiffness: 100,
-      velocity: 3,
-      mass: 0.5,
-    });
+    // Let the caller know the notification is appearing
+    onShow?.();
 
-    // Trigger haptic feedback when notification appears
-    if (enableHaptics) {
-      if (type === 'success') {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      } else if (type === 'failed') {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      } else {
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-      }
-    }
+    // Reduced motion: appear at full size and fade in
+    if (reduceMotion) {
+      expansion.value = 1;
+      textScale.value = 1;
+      textOpacity.value = 1;
+      fade.value = 0;
+      fade.value = withTiming(1, { duration });
+    } else {
+      expansion.value = withSpring(1, enterSpring);
 
-    setTimeout(() => {
-      if (!isMounted.current) return;
+      setTimeout(() => {
+        if (!isMounted.current) return;
 
-      textOpacity.value = withTiming(1, { duration: ANIMATION_DURATION / 2 });
-      textScale.value = withSpring(1, {
-        damping: 12,
-        stiffness: 120,
-      });
-    }, ANIMATION_DURATION / 2);
-
-    // Only set auto-hide timeout if disableAutoHide is not true
-    let timeout: NodeJS.Timeout | undefined;
-    if (!disableAutoHide) {
-      timeout = setTimeout(
-        hideNotification,
-        autoHideDelay || DEFAULT_AUTO_HIDE_DELAY
-      );
+        textOpacity.value = withTiming(1, { duration: duration / 2 });
+        textScale.value = withSpring(1, contentSpring);
+      }, stagger);
     }
 
     return () => {
       isMounted.current = false;
-      if (timeout) clearTimeout(timeout);
     };
   }, []);
 
   // -----------------------------------------------------------------------
   // animated styles
+  const expandedRadius = theme.radii[shape] ?? deviceConfig.borderRadius;
+  // A punch-hole starts as a circle, a notch as a square-cornered block
+  const originRadius = punchHole ? origin.width / 2 : 0;
   const notchNotificationStyle = useAnimatedStyle(() => {
     // When completely hidden, force size to 0
     if (completelyHidden.value === 1) {
@@ -281,31 +451,34 @@ export default function NotchNotification({
       };
     }
 
-    // Get the animated dimensions
+    // Get the animated dimensions, starting from the size of the cutout
     const width = interpolate(
       expansion.value,
       [0, 1],
-      [notchMinWidth, contentSize.value.w],
+      [origin.width, contentWidth.value],
       { extrapolateRight: 'clamp' }
     );
 
     const height = interpolate(
       expansion.value,
       [0, 1],
-      [minHeight, contentSize.value.h],
+      [origin.height, contentHeight.value],
       { extrapolateRight: 'clamp' }
     );
 
-    // Start with no border radius at the top (to blend with notch)
-    // and gradually add border radius at the bottom
-    const borderTopRadius = interpolate(expansion.value, [0, 1], [0, 0], {
-      extrapolateRight: 'clamp',
-    });
+    // A notch keeps no border radius at the top (to blend with the notch)
+    // and gradually adds border radius at the bottom
+    const borderTopRadius = interpolate(
+      expansion.value,
+      [0, 1],
+      [originRadius, punchHole ? expandedRadius : 0],
+      { extrapolateRight: 'clamp' }
+    );
 
     const borderBottomRadius = interpolate(
       expansion.value,
       [0, 1],
-      [0, deviceConfig.borderRadius],
+      [originRadius, expandedRadius],
       { extrapolateRight: 'clamp' }
     );
 
@@ -316,19 +489,24 @@ export default function NotchNotification({
       { extrapolateRight: 'clamp' }
     );
 
-    const opacity = interpolate(expansion.value, [0, 0.1], [0, 1], {
-      extrapolateLeft: 'clamp',
-      extrapolateRight: 'clamp',
-    });
+    const opacity =
+      interpolate(expansion.value, [0, 0.1], [0, 1], {
+        extrapolateLeft: 'clamp',
+        extrapolateRight: 'clamp',
+      }) * fade.value;
 
-    // Calculate left position to keep centered while expanding
+    // Move from the cutout, centered or offset, to the center of the screen
     const left = interpolate(
       expansion.value,
       [0, 1],
-      [notchPosition.left, (windowWidth - contentSize.value.w) / 2],
+      [origin.x, (windowWidth - contentWidth.value) / 2],
       { extrapolateRight: 'clamp' }
     );
 
+    const top = interpolate(expansion.value, [0, 1], [origin.y, expandedTop], {
+      extrapolateRight: 'clamp',
+    });
+
     return {
       width,
       height,
@@ -338,52 +516,46 @@ export default function NotchNotification({
       borderBottomLeftRadius: borderBottomRadius,
       borderBottomRightRadius: borderBottomRadius,
       left,
-      transform: [{ scale }, { translateY: 0 }],
+      top,
+      transform: [{ scale }, { translateY: dragY.value }],
     };
   });
 
   const contentStyle = useAnimatedStyle(() => ({
     opacity: textOpacity.value,
     transform: [
-      { translateY: interpolate(textOpacity.value, [0, 1], [10, 0]) },
+      {
+        translateY: reduceMotion
+          ? 0
+          : interpolate(textOpacity.value, [0, 1], [10, 0]),
+      },
       { scale: textScale.value },
     ],
   }));
 
   // -----------------------------------------------------------------------
   // helpers
-  const color = (() => {
-    switch (type) {
-      case 'success':
-        return textColor || '#4CAF50';
-      case 'failed':
-        return textColor || '#F44336';
-      default:
-        return textColor || '#FFFFFF';
-    }
-  })();
+  const typeColors = theme.colors[type];
+  const color = textColor || typeColors?.text || theme.text[shape];
+
+  // Per-call icon wins over the icon of the type, null hides it
+  const resolvedIcon = icon !== undefined ? icon : typeConfig.icon;
+
+  // Determine background color, custom backgroundColor prop first
+  const getBackgroundColor = () => backgroundColor || theme.background[shape];
 
   // Determine border color based on type and custom borderColor prop
-  const getBorderColor = () => {
-    if (borderColor) return borderColor;
-
-    switch (type) {
-      case 'success':
-        return 'rgba(76, 175, 80, 0.3)'; // Default green border for success
-      case 'failed':
-        return 'rgba(244, 67, 54, 0.3)'; // Default red border for failed
-      default:
-        return 'rgba(255, 255, 255, 0.1)'; // Default subtle white border
-    }
-  };
+  const getBorderColor = () =>
+    borderColor || typeColors?.border || theme.border.color[shape];
 
+  const shadowTokens = theme.shadow[shape];
   const shadowStyle = showShadow
     ? {
-        shadowColor: shadowColor || color,
-        shadowOffset: { width: 0, height: 0 },
-        shadowOpacity: 0.3,
-        shadowRadius: 15,
-        elevation: 25,
+        shadowColor: shadowColor || shadowTokens.color || color,
+        shadowOffset: shadowTokens.offset,
+        shadowOpacity: shadowTokens.opacity,
+        shadowRadius: shadowTokens.radius,
+        elevation: shadowTokens.elevation,
       }
     : {};
 
@@ -398,42 +570,111 @@ export default function NotchNotification({
       />
 
       <View style={styles.notchContainer}>
-        <Pressable style={styles.pressableContainer} onPress={hideNotification}>
-          <Animated.View
-            style={[
-              styles.notchNotification,
-              notchNotificationStyle,
-              shadowStyle,
-              {
-                borderColor: getBorderColor(),
-              },
-              type === 'success' && styles.successNotification,
-              type === 'failed' && styles.failedNotification,
-            ]}
-            onLayout={onNotificationLayout}
-            ref={notificationRef}
-          >
+        <Pressable
+          style={styles.pressableContainer}
+          {...accessibilityProps}
+          onPressIn={pauseAutoHide}
+          onPressOut={resumeAutoHide}
+          onPress={() => {
+            onPress?.();
+            hideNotification('tap');
+          }}
+        >
+          <GestureDetector gesture={swipeGesture}>
             <Animated.View
-              style={[styles.notificationContent, contentStyle]}
-              onLayout={onContentLayout}
+              style={[
+                styles.notchNotification,
+                notchNotificationStyle,
+                shadowStyle,
+                {
+                  backgroundColor: getBackgroundColor(),
+                  borderColor: getBorderColor(),
+                  borderWidth: theme.border.width[shape],
+                },
+              ]}
+              onLayout={onNotificationLayout}
+              ref={notificationRef}
             >
-              {children ? (
-                <View style={styles.customContentContainer}>{children}</View>
-              ) : (
-                <View style={styles.contentRow}>
-                  <Text
-                    style={[
-                      styles.notificationText,
-                      { color },
-                      type !== 'default' && styles.accentedText,
-                    ]}
-                  >
-                    {message}
-                  </Text>
+              <Animated.View
+                style={[
+                  styles.notificationContent,
+                  { width: notchMaxWidth, paddingTop: contentPaddingTop },
+                  contentStyle,
+                ]}
+                onLayout={onContentLayout}
+              >
+                <View style={styles.contentBody} onLayout={onContentBodyLayout}>
+                  {children ? (
+                    <View style={styles.customContentContainer}>
+                      {children}
+                    </View>
+                  ) : (
+                    <View style={styles.contentRow}>
+                      {!!leading && (
+                        <View style={styles.leading}>
+                          <NotificationIcon icon={leading} color={color} />
+                        </View>
+                      )}
+                      {!!resolvedIcon && (
+                        <View style={styles.icon}>
+                          <NotificationIcon icon={resolvedIcon} color={color} />
+                        </View>
+                      )}
+                      <Text
+                        style={[
+                          styles.notificationText,
+                          {
+                            color,
+                            fontSize: theme.typography.fontSize[shape],
+                            fontWeight: theme.typography.fontWeight,
+                          },
+                          type !== 'default' && [
+                            styles.accentedText,
+                            {
+                              fontSize: theme.typography.accentFontSize,
+                              fontWeight: theme.typography.accentFontWeight,
+                            },
+                          ],
+                        ]}
+                      >
+                        {message}
+                      </Text>
+                      {!!trailing && (
+                        <View style={styles.trailing}>
+                          <NotificationIcon icon={trailing} color={color} />
+                        </View>
+                      )}
+                    </View>
+                  )}
+                  {progress !== undefined && (
+                    <ProgressBar
+                      value={progress}
+                      color={color}
+                      trackColor={theme.actionBackground[shape]}
+                      style={styles.progress}
+                    />
+                  )}
+                  {hasActions && (
+                    <NotificationActions
+                      actions={actions}
+                      color={theme.text[shape]}
+                      backgroundColor={theme.actionBackground[shape]}
+                      onDismiss={() => hideNotification('action')}
+                      style={styles.actions}
+                    />
+                  )}
                 </View>
+              </Animated.View>
+              {showCountdown && (
+                <CountdownBar
+                  progress={autoHideProgress}
+                  color={color}
+                  trackColor={theme.actionBackground[shape]}
+                  style={styles.countdown}
+                />
               )}
             </Animated.View>
-          </Animated.View>
+          </GestureDetector>
         </Pressable>
       </View>
     </>
@@ -461,31 +702,33 @@ const styles = StyleSheet.create({
     width: '100%',
   },
   notchNotification: {
-    backgroundColor: 'black',
     overflow: 'hidden',
     alignItems: 'center',
     justifyContent: 'center',
-    borderWidth: 0.5,
-    borderColor: 'rgba(255, 255, 255, 0.1)',
     position: 'absolute',
     top: 0,
   },
-  successNotification: {
-    borderColor: 'rgba(76, 175, 80, 0.3)',
-  },
-  failedNotification: {
-    borderColor: 'rgba(244, 67, 54, 0.3)',
-  },
+
   notificationContent: {
-    width: '100%',
     paddingHorizontal: 20,
-    paddingTop: CONTENT_PADDING_TOP,
     paddingBottom: 10,
     alignItems: 'center',
     justifyContent: 'center',
   },
+  contentBody: {
+    maxWidth: '100%',
+    alignItems: 'center',
+  },
+  actions: {
+    marginTop: 10,
+  },
+  progress: {
+    alignSelf: 'stretch',
+    minWidth: PROGRESS_MIN_WIDTH,
+    marginTop: 8,
+  },
   customContentContainer: {
-    width: '100%',
+    maxWidth: '100%',
     alignItems: 'center',
     justifyContent: 'center',
     paddingBottom: CONTENT_PADDING_BOTTOM - 5,
@@ -494,17 +737,28 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    width: '100%',
+    maxWidth: '100%',
     paddingBottom: CONTENT_PADDING_BOTTOM - 5,
   },
+  countdown: {
+    left: 24,
+    right: 24,
+    bottom: 6,
+  },
+  leading: {
+    marginRight: 8,
+  },
+  icon: {
+    marginRight: 8,
+  },
+  trailing: {
+    marginLeft: 8,
+  },
   notificationText: {
-    fontSize: 16,
-    fontWeight: '600',
+    flexShrink: 1,
     textAlign: 'center',
   },
   accentedText: {
-    fontSize: 17,
-    fontWeight: '700',
     textShadowColor: 'rgba(0,0,0,0.3)',
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 2,
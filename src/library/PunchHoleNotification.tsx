@@ -0,0 +1,25 @@
+// Notification Component for Android devices with a punch-hole camera
+import NotchNotification from './NotchNotification';
+import type { NotchNotificationProps } from './NotchNotification';
+
+// ---------------------------------------------------------------------------
+// props - same interface as NotchNotification, the shape is fixed
+/**
+ * Props for the PunchHoleNotification component
+ * @interface PunchHoleNotificationProps
+ */
+export type PunchHoleNotificationProps = Omit<NotchNotificationProps, 'shape'>;
+
+// ---------------------------------------------------------------------------
+/**
+ * A notification component designed for Android devices with a punch-hole camera
+ * This notification appears to grow out of the circular camera cutout,
+ * wherever it sits on the top edge
+ * @param props - The component props
+ * @returns React component
+ */
+export default function PunchHoleNotification(
+  props: PunchHoleNotificationProps
+) {
+  return <NotchNotification {...props} shape="punchHole" />;
+}
@@ -17,17 +17,47 @@ import Animated, {
   interpolate,
   runOnJS,
 } from 'react-native-reanimated';
-import * as Haptics from 'expo-haptics';
-import * as Device from 'expo-device';
-import { getDeviceAnimationConfig, DeviceType } from './config/devices';
+import { GestureDetector } from 'react-native-gesture-handler';
+
+import {
+  getCurrentModelId,
+  getDeviceAnimationConfig,
+  DeviceType,
+} from './config/devices';
 import type { DeviceAnimationConfig } from './config/devices';
+import { useSwipeToDismiss } from './hooks/useSwipeToDismiss';
+import { useNotificationAnimation } from './hooks/useNotificationAnimation';
+import { useNotificationLifecycle } from './hooks/useNotificationLifecycle';
+import { useReduceMotion } from './hooks/useReduceMotion';
+import { useKeyboardHeight } from './hooks/useKeyboardHeight';
+import CountdownBar from './components/CountdownBar';
+import NotificationActions from './components/NotificationActions';
+import NotificationIcon from './components/NotificationIcon';
+import ProgressBar from './components/ProgressBar';
+import type {
+  DismissReason,
+  NotificationAction,
+  NotificationType,
+  ToastPosition,
+} from './types';
+import { useNotificationTheme } from './config/theme';
+import { useNotificationType } from './config/notificationTypes';
+import { toastAnimation } from './config/animations';
+import type { AnimationOption } from './config/animations';
 
 // ---------------------------------------------------------------------------
 // constants
-const ANIMATION_DURATION = 350;
-const DEFAULT_AUTO_HIDE_DELAY = 3000;
+
 const SAFE_TOP = Platform.OS === 'ios' ? 80 : 60;
+const SAFE_BOTTOM = Platform.OS === 'ios' ? 50 : 40;
+const SLIDE_DISTANCE = 100; // Distance travelled by the enter and exit slides
+const KEYBOARD_GAP = 12; // Space kept between a bottom toast and the keyboard
 const CONTENT_PADDING = 16;
+const CARD_WIDTH = 380; // Width of the card shown on large screens
+const CARD_MARGIN = 20; // Space between the card and the trailing edge
+const STACK_PEEK = 10; // Visible part of each toast behind the front one
+const STACK_SCALE_STEP = 0.05;
+const STACK_OPACITY_STEP = 0.2;
 
 // ---------------------------------------------------------------------------
 // props - same interface as other notifications for compatibility
@@ -38,10 +68,16 @@ const CONTENT_PADDING = 16;
 export type ToastNotificationProps = {
   /** Text message to display in the notification */
   message: string;
-  /** Callback function called when notification is hidden */
-  onHide: () => void;
-  /** Type of notification: success, failed, or default */
-  type?: 'success' | 'failed' | 'default';
+  /** Callback function called when notification is hidden, with the reason */
+  onHide: (reason?: DismissReason) => void;
+  /** Called once when the notification starts appearing */
+  onShow?: () => void;
+  /** Called when the notification is pressed */
+  onPress?: () => void;
+  /** Called when the auto-hide delay elapses, before the hide animation */
+  onAutoHide?: () => void;
+  /** Type of notification: success, failed, loading, or default */
+  type?: NotificationType;
   /** Custom text color */
   textColor?: string;
   /** Whether to show a shadow effect */
@@ -50,6 +86,17 @@ export type ToastNotificationProps = {
   shadowColor?: string;
   /** Custom border color */
   borderColor?: string;
+  /** Custom background color */
+  backgroundColor?: string;
+  /**
+   * Icon displayed before the message, a React node or a registered icon
+   * name. Defaults to the icon of the type, null hides it.
+   */
+  icon?: React.ReactNode;
+  /** Accessory displayed before the icon, a React node or a registered icon name */
+  leading?: React.ReactNode;
+  /** Accessory displayed after the message, a React node or a registered icon name */
+  trailing?: React.ReactNode;
   /** Custom React component to display inside the notification */
   children?: React.ReactNode;
   /** Delay before auto-hiding in milliseconds */
@@ -60,32 +107,76 @@ export type ToastNotificationProps = {
   disableAutoHide?: boolean;
   /** Enable haptic feedback when notification appears */
   enableHaptics?: boolean;
+  /** Show a bar with the time left before auto-hiding */
+  showCountdown?: boolean;
+  /** Completed part of a task from 0 to 1, shows a progress bar */
+  progress?: number;
+  /** Springs, durations and stagger: a preset name or overrides */
+  animation?: AnimationOption;
+  /** Buttons displayed next to the message */
+  actions?: NotificationAction[];
+  /** Where the toast appears on screen, default top */
+  position?: ToastPosition;
+  /** Show a fixed-width card against the trailing edge, for large screens */
+  card?: boolean;
+  /** Position inside a stack of toasts, 0 being the front toast */
+  stackIndex?: number;
+  /** Whether the stack is expanded to show every toast */
+  stackExpanded?: boolean;
+  /** Vertical offset of this toast when the stack is expanded */
+  stackOffset?: number;
+  /** Called when a collapsed stack is pressed, instead of hiding the toast */
+  onStackPress?: () => void;
+  /** Called with the measured height of the toast */
+  onHeightChange?: (height: number) => void;
 };
 
 // ---------------------------------------------------------------------------
 /**
  * A toast notification component for standard devices (no notch, no dynamic island)
- * Appears at the top of the screen with slide-down animation
+ * Slides in from the top or bottom edge of the screen, or scales in at its center
  * @param props - The component props
  * @returns React component
  */
 export default function ToastNotification({
   message,
   onHide,
+  onShow,
+  onPress,
+  onAutoHide,
   type = 'default',
   textColor,
   showShadow = true,
   borderColor,
+  backgroundColor,
   shadowColor,
+  icon,
+  leading,
+  trailing,
   children,
   autoHideDelay,
   setClose,
   disableAutoHide,
   enableHaptics = true,
+  showCountdown = false,
+  progress,
+  actions,
+  animation,
+  position = 'top',
+  card = false,
+  stackIndex,
+  stackExpanded = false,
+  stackOffset = 0,
+  onStackPress,
+  onHeightChange,
 }: ToastNotificationProps) {
   const { width: windowWidth } = useWindowDimensions();
+  const theme = useNotificationTheme();
+  const typeConfig = useNotificationType(type);
+  const reduceMotion = useReduceMotion();
+  const { enterSpring, contentSpring, resizeSpring, duration } =
+    useNotificationAnimation(toastAnimation, animation);
 
-  const [, setToastHeight] = useState(0);
   const [deviceConfig, setDeviceConfig] = useState<DeviceAnimationConfig>(
     getDeviceAnimationConfig(undefined, DeviceType.STANDARD)
   );
@@ -93,7 +184,7 @@ export default function ToastNotification({
   // Detect device model and load appropriate configuration
   useEffect(() => {
     const loadDeviceConfig = async () => {
-      const deviceId = await Device.modelId;
+      const deviceId = getCurrentModelId();
       console.log('Device detected (standard):', deviceId);
       setDeviceConfig(
         getDeviceAnimationConfig(deviceId || undefined, DeviceType.STANDARD)
@@ -103,58 +194,129 @@ export default function ToastNotification({
     loadDeviceConfig();
   }, []);
 
+  // Offset the toast enters from and exits to, center toasts only scale
+  const slideFrom =
+    position === 'top'
+      ? -SLIDE_DISTANCE
+      : position === 'bottom'
+        ? SLIDE_DISTANCE
+        : 0;
+  // Stacks grow away from the screen edge the toasts are attached to
+  const stackDirection = position === 'bottom' ? -1 : 1;
+
+  // Bottom toasts lift above the software keyboard
+  const keyboardHeight = useKeyboardHeight(position === 'bottom');
+
   // ----- shared animation values
   const slideDown = useSharedValue(0);
   const opacity = useSharedValue(0);
   const scale = useSharedValue(0.9);
   const completelyHidden = useSharedValue(1); // 0: visible, 1: hidden
+  const stackTranslate = useSharedValue(0);
+  const stackScale = useSharedValue(1);
+  const stackOpacity = useSharedValue(1);
+
+  // Swipe horizontally to dismiss, pulling vertically rubber-bands
+  const {
+    gesture: swipeGesture,
+    dragX,
+    dragY,
+  } = useSwipeToDismiss('horizontal', (velocity) =>
+    hideNotification('swipe', velocity)
+  );
 
-  /** Size of the toast, filled after first onLayout */
-  const contentSize = useSharedValue({
-    w: windowWidth * deviceConfig.maxWidthRatio,
-    h: 0, // Will be measured
-  });
+  // Width follows the window, so rotating or resizing it re-lays the toast out
+  const toastWidth = card
+    ? Math.min(CARD_WIDTH, windowWidth - CARD_MARGIN * 2)
+    : windowWidth * deviceConfig.maxWidthRatio;
 
-  /** ensure we measure only once to avoid loops  */
-  const measuredOnce = useRef(false);
   /** track if the component is mounted */
   const isMounted = useRef(true);
+  /** track if the hide animation already started */
+  const isHiding = useRef(false);
   /** reference to the toast view */
   const toastRef = useRef<View>(null);
 
   // -----------------------------------------------------------------------
   // Layout callback - measure content
   const onContentLayout = (event: LayoutChangeEvent) => {
-    if (!isMounted.current || measuredOnce.current) return;
+    if (!isMounted.current) return;
 
-    const { height } = event.nativeEvent.layout;
-    setToastHeight(height);
-
-    contentSize.value = {
-      w: windowWidth * deviceConfig.maxWidthRatio,
-      h: height,
-    };
-
-    measuredOnce.current = true;
+    // Stacks need every height change to lay out the expanded toasts
+    onHeightChange?.(event.nativeEvent.layout.height);
   };
 
   // -----------------------------------------------------------------------
   // hide routine
-  const hideNotification = () => {
-    // Fade and scale out
-    opacity.value = withTiming(0, { duration: ANIMATION_DURATION });
-    scale.value = withTiming(0.9, { duration: ANIMATION_DURATION });
+  const hideNotification = (
+    reason: DismissReason = 'programmatic',
+    velocity = 0
+  ) => {
+    // Ignore repeated calls while the hide animation is running
+    if (isHiding.current) return;
+    isHiding.current = true;
+
+    if (reason === 'timeout') {
+      onAutoHide?.();
+    }
 
-    // Slide up
-    slideDown.value = withTiming(0, { duration: ANIMATION_DURATION }, () => {
+    const onHidden = () => {
+      'worklet';
       if (isMounted.current) {
         // Ensure completely hidden
         completelyHidden.value = 1;
-        runOnJS(onHide)();
+        runOnJS(onHide)(reason);
       }
-    });
+    };
+
+    // Reduced motion: fade out in place
+    if (reduceMotion) {
+      opacity.value = withTiming(0, { duration }, onHidden);
+      return;
+    }
+
+    // Fade and scale out
+    opacity.value = withTiming(0, { duration });
+    scale.value = withTiming(0.9, { duration });
+
+    // A swipe throws the toast sideways with the release velocity
+    if (reason === 'swipe') {
+      const direction = Math.sign(velocity || dragX.value) || 1;
+      dragX.value = withSpring(
+        direction * windowWidth,
+        { velocity, damping: 20, stiffness: 200, overshootClamping: true },
+        onHidden
+      );
+      return;
+    }
+
+    // Slide back to the screen edge
+    slideDown.value = withTiming(0, { duration }, onHidden);
   };
 
+  const hasActions = !!actions && actions.length > 0;
+  const {
+    close,
+    accessibilityProps,
+    autoHideProgress,
+    pauseAutoHide,
+    resumeAutoHide,
+  } = useNotificationLifecycle({
+    message,
+    type,
+    typeConfig,
+    interactive: hasActions,
+    autoHideDelay,
+    disableAutoHide,
+    enableHaptics,
+    reduceMotion,
+    duration,
+    contentSpring,
+    contentScale: scale,
+    contentOpacity: opacity,
+    hide: hideNotification,
+  });
+
   // -----------------------------------------------------------------------
   // mount effect
   useEffect(() => {
@@ -166,9 +328,12 @@ export default function ToastNotification({
 
     // Expose close function if provided
     if (setClose) {
-      setClose(hideNotification);
+      setClose(close);
     }
 
+    // Let the caller know the notification is appearing
+    onShow?.();
+
     // Small delay to ensure we have measured the content
     setTimeout(() => {
       if (!isMounted.current) return;
@@ -176,47 +341,58 @@ export default function ToastNotification({
       // Make visible
       completelyHidden.value = 0;
 
-      // Animate in
-      slideDown.value = withSpring(1, {
-        damping: 12,
-        stiffness: 90,
-        mass: 0.6,
-      });
-
-      opacity.value = withTiming(1, { duration: ANIMATION_DURATION });
-
-      scale.value = withSpring(1, {
-        damping: 12,
-        stiffness: 100,
-      });
-
-      // Trigger haptic feedback
-      if (enableHaptics) {
-        if (type === 'success') {
-          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-        } else if (type === 'failed') {
-          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-        } else {
-          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-        }
+      // Reduced motion: appear in place and fade in
+      if (reduceMotion) {
+        slideDown.value = 1;
+        scale.value = 1;
+        opacity.value = withTiming(1, { duration });
+        return;
       }
-    }, 50);
 
-    // Auto-hide if enabled
-    let timeout: NodeJS.Timeout | undefined;
-    if (!disableAutoHide) {
-      timeout = setTimeout(
-        hideNotification,
-        autoHideDelay || DEFAULT_AUTO_HIDE_DELAY
-      );
-    }
+      // Animate in
+      slideDown.value = withSpring(1, enterSpring);
+
+      opacity.value = withTiming(1, { duration });
+
+      scale.value = withSpring(1, enterSpring);
+    }, 50);
 
     return () => {
       isMounted.current = false;
-      if (timeout) clearTimeout(timeout);
     };
   }, []);
 
+  // Move the toast to its depth in the stack, or spread it once expanded
+  useEffect(() => {
+    if (stackIndex === undefined) return;
+
+    const moveTo = (value: number) =>
+      reduceMotion
+        ? withTiming(value, { duration })
+        : withSpring(value, resizeSpring);
+
+    stackTranslate.value = moveTo(
+      stackExpanded ? stackOffset : stackIndex * STACK_PEEK
+    );
+    stackScale.value = moveTo(
+      stackExpanded ? 1 : 1 - stackIndex * STACK_SCALE_STEP
+    );
+    stackOpacity.value = withTiming(
+      stackExpanded ? 1 : Math.max(1 - stackIndex * STACK_OPACITY_STEP, 0),
+      { duration }
+    );
+  }, [
+    stackIndex,
+    stackExpanded,
+    stackOffset,
+    stackTranslate,
+    stackScale,
+    stackOpacity,
+    reduceMotion,
+    duration,
+    resizeSpring,
+  ]);
+
   // -----------------------------------------------------------------------
   // animated styles
   const toastStyle = useAnimatedStyle(() => {
@@ -224,93 +400,164 @@ export default function ToastNotification({
     if (completelyHidden.value === 1) {
       return {
         opacity: 0,
-        transform: [{ translateY: -100 }, { scale: 0 }],
+        transform: [{ translateY: slideFrom }, { scale: 0 }],
       };
     }
 
-    const translateY = interpolate(slideDown.value, [0, 1], [-100, 0], {
+    const translateY = interpolate(slideDown.value, [0, 1], [slideFrom, 0], {
       extrapolateRight: 'clamp',
     });
+    const keyboardLift =
+      keyboardHeight.value > 0
+        ? Math.max(keyboardHeight.value - SAFE_BOTTOM + KEYBOARD_GAP, 0)
+        : 0;
 
     return {
-      opacity: opacity.value,
-      transform: [{ translateY }, { scale: scale.value }],
+      opacity: opacity.value * stackOpacity.value,
+      transform: [
+        { translateX: dragX.value },
+        {
+          translateY:
+            translateY +
+            stackDirection * stackTranslate.value +
+            dragY.value -
+            keyboardLift,
+        },
+        { scale: scale.value * stackScale.value },
+      ],
     };
   });
 
   // -----------------------------------------------------------------------
   // helpers
-  const color = (() => {
-    switch (type) {
-      case 'success':
-        return textColor || '#4CAF50';
-      case 'failed':
-        return textColor || '#F44336';
-      default:
-        return textColor || '#FFFFFF';
-    }
-  })();
-
-  // Determine background color based on type
-  const getBackgroundColor = () => {
-    switch (type) {
-      case 'success':
-        return 'rgba(0, 0, 0, 0.95)';
-      case 'failed':
-        return 'rgba(0, 0, 0, 0.95)';
-      default:
-        return 'rgba(0, 0, 0, 0.95)';
-    }
-  };
+  const typeColors = theme.colors[type];
+  const color = textColor || typeColors?.text || theme.text.toast;
 
-  // Determine border color
-  const getBorderColor = () => {
-    if (borderColor) return borderColor;
-
-    switch (type) {
-      case 'success':
-        return 'rgba(76, 175, 80, 0.3)';
-      case 'failed':
-        return 'rgba(244, 67, 54, 0.3)';
-      default:
-        return 'rgba(255, 255, 255, 0.2)';
-    }
-  };
+  // Per-call icon wins over the icon of the type, null hides it
+  const resolvedIcon = icon !== undefined ? icon : typeConfig.icon;
 
+  // Determine background color, custom backgroundColor prop first
+  const getBackgroundColor = () => backgroundColor || theme.background.toast;
+
+  // Determine border color based on type and custom borderColor prop
+  const getBorderColor = () =>
+    borderColor || typeColors?.border || theme.border.color.toast;
+
+  const shadowTokens = theme.shadow.toast;
   const shadowStyle = showShadow
     ? {
-        shadowColor: shadowColor || '#000000',
-        shadowOffset: { width: 0, height: 3 },
-        shadowOpacity: 0.3,
-        shadowRadius: 5,
-        elevation: 6,
+        shadowColor: shadowColor || shadowTokens.color || color,
+        shadowOffset: shadowTokens.offset,
+        shadowOpacity: shadowTokens.opacity,
+        shadowRadius: shadowTokens.radius,
+        elevation: shadowTokens.elevation,
       }
     : {};
 
   // -----------------------------------------------------------------------
   return (
-    <View style={styles.container}>
-      <Pressable onPress={hideNotification}>
-        <Animated.View
-          style={[
-            styles.toast,
-            toastStyle,
-            shadowStyle,
-            {
-              backgroundColor: getBackgroundColor(),
-              borderColor: getBorderColor(),
-              width: windowWidth * deviceConfig.maxWidthRatio,
-            },
-          ]}
-          ref={toastRef}
-          onLayout={onContentLayout}
-        >
-          {children ? (
-            <View style={styles.customContent}>{children}</View>
-          ) : (
-            <Text style={[styles.text, { color }]}>{message}</Text>
-          )}
-        </Animated.View>
+    <View
+      pointerEvents="box-none"
+      style={[
+        styles.container,
+        styles[position],
+        card && styles.card,
+        stackIndex !== undefined && {
+          zIndex: 10000 - stackIndex,
+          elevation: 10000 - stackIndex,
+        },
+      ]}
+    >
+      <Pressable
+        {...accessibilityProps}
+        onPressIn={pauseAutoHide}
+        onPressOut={resumeAutoHide}
+        onPress={() => {
+          onPress?.();
+          if (onStackPress && !stackExpanded) {
+            onStackPress();
+          } else {
+            hideNotification('tap');
+          }
+        }}
+      >
+        <GestureDetector gesture={swipeGesture}>
+          <Animated.View
+            style={[
+              styles.toast,
+              toastStyle,
+              shadowStyle,
+              {
+                backgroundColor: getBackgroundColor(),
+                borderColor: getBorderColor(),
+                borderWidth: theme.border.width.toast,
+                borderRadius: theme.radii.toast,
+                width: toastWidth,
+              },
+            ]}
+            ref={toastRef}
+            onLayout={onContentLayout}
+          >
+            {children ? (
+              <View style={styles.customContent}>{children}</View>
+            ) : (
+              <>
+                {!!leading && (
+                  <View style={styles.leading}>
+                    <NotificationIcon icon={leading} color={color} />
+                  </View>
+                )}
+                {!!resolvedIcon && (
+                  <View style={styles.icon}>
+                    <NotificationIcon icon={resolvedIcon} color={color} />
+                  </View>
+                )}
+                <Text
+                  style={[
+                    styles.text,
+                    {
+                      color,
+                      fontSize: theme.typography.fontSize.toast,
+                      fontWeight: theme.typography.fontWeight,
+                    },
+                  ]}
+                >
+                  {message}
+                </Text>
+                {!!trailing && (
+                  <View style={styles.trailing}>
+                    <NotificationIcon icon={trailing} color={color} />
+                  </View>
+                )}
+              </>
+            )}
+            {progress !== undefined && (
+              <ProgressBar
+                value={progress}
+                color={color}
+                trackColor={theme.actionBackground.toast}
+                style={styles.progress}
+              />
+            )}
+            {hasActions && (
+              <NotificationActions
+                actions={actions}
+                color={theme.text.toast}
+                backgroundColor={theme.actionBackground.toast}
+                onDismiss={() => hideNotification('action')}
+                style={styles.actions}
+              />
+            )}
+            {showCountdown && (
+              <CountdownBar
+                progress={autoHideProgress}
+                color={color}
+                trackColor={theme.actionBackground.toast}
+                style={styles.countdown}
+              />
+            )}
+          </Animated.View>
+        </GestureDetector>
       </Pressable>
     </View>
   );
@@ -321,27 +568,61 @@ export default function ToastNotification({
 const styles = StyleSheet.create({
   container: {
     position: 'absolute',
-    top: SAFE_TOP,
     left: 0,
     right: 0,
     alignItems: 'center',
     zIndex: 10000,
     elevation: 10000,
   },
+  top: {
+    top: SAFE_TOP,
+  },
+  bottom: {
+    bottom: SAFE_BOTTOM,
+  },
+  center: {
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+  card: {
+    alignItems: 'flex-end',
+    paddingHorizontal: CARD_MARGIN,
+  },
   toast: {
-    borderRadius: 20,
     paddingHorizontal: 16,
     paddingVertical: 12,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    borderWidth: 1,
+  },
+  leading: {
+    marginRight: 8,
+  },
+  icon: {
+    marginRight: 8,
+  },
+  trailing: {
+    marginLeft: 8,
   },
   text: {
-    fontSize: 15,
-    fontWeight: '600',
+    flexShrink: 1,
     textAlign: 'center',
   },
+  actions: {
+    marginLeft: 12,
+  },
+  progress: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 4,
+  },
+  countdown: {
+    left: 16,
+    right: 16,
+    bottom: 4,
+  },
   customContent: {
     padding: CONTENT_PADDING / 2,
     width: '100%',
@@ -0,0 +1,59 @@
+import { StyleSheet } from 'react-native';
+import type { StyleProp, ViewStyle } from 'react-native';
+import Animated, { useAnimatedStyle } from 'react-native-reanimated';
+import type { SharedValue } from 'react-native-reanimated';
+
+/**
+ * Props for the CountdownBar component
+ * @interface CountdownBarProps
+ */
+type CountdownBarProps = {
+  /** Remaining part of the auto-hide delay, from 1 to 0 */
+  progress: SharedValue<number>;
+  /** Color of the bar */
+  color: string;
+  /** Color of the elapsed part */
+  trackColor: string;
+  /** Position of the bar inside the notification */
+  style?: StyleProp<ViewStyle>;
+};
+
+/**
+ * Thin bar showing how much of the auto-hide delay is left
+ */
+export default function CountdownBar({
+  progress,
+  color,
+  trackColor,
+  style,
+}: CountdownBarProps) {
+  const barStyle = useAnimatedStyle(() => ({
+    width: `${progress.value * 100}%`,
+  }));
+
+  return (
+    <Animated.View
+      pointerEvents="none"
+      style={[styles.track, { backgroundColor: trackColor }, style]}
+    >
+      <Animated.View
+        style={[styles.bar, { backgroundColor: color }, barStyle]}
+      />
+    </Animated.View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// styles
+const styles = StyleSheet.create({
+  track: {
+    position: 'absolute',
+    height: 3,
+    borderRadius: 1.5,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: '100%',
+    borderRadius: 1.5,
+  },
+});
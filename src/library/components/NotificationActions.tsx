@@ -0,0 +1,100 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import type { StyleProp, ViewStyle } from 'react-native';
+import type { NotificationAction } from '../types';
+import { useNotificationTheme } from '../config/theme';
+
+/**
+ * Props for the NotificationActions component
+ * @interface NotificationActionsProps
+ */
+type NotificationActionsProps = {
+  /** Buttons to display */
+  actions: NotificationAction[];
+  /** Called after an action that dismisses the notification was pressed */
+  onDismiss: () => void;
+  /** Label color, the text color of the notification style */
+  color: string;
+  /** Button color */
+  backgroundColor: string;
+  /** Layout of the row inside the notification */
+  style?: StyleProp<ViewStyle>;
+};
+
+/**
+ * Row of action buttons rendered inside a notification
+ * Each button is its own Pressable, so pressing it never reaches the
+ * notification-level press handler
+ */
+export default function NotificationActions({
+  actions,
+  onDismiss,
+  color,
+  backgroundColor,
+  style,
+}: NotificationActionsProps) {
+  const theme = useNotificationTheme();
+
+  const handlePress = (action: NotificationAction) => {
+    action.onPress();
+    if (action.dismiss !== false) {
+      onDismiss();
+    }
+  };
+
+  return (
+    <View style={[styles.row, style]}>
+      {actions.map((action, index) => (
+        <Pressable
+          key={`${action.label}-${index}`}
+          accessibilityRole="button"
+          onPress={() => handlePress(action)}
+          style={({ pressed }) => [
+            styles.button,
+            { backgroundColor },
+            pressed && styles.pressed,
+          ]}
+        >
+          <Text
+            style={[
+              styles.label,
+              { color },
+              action.style === 'cancel' && styles.cancelLabel,
+              action.style === 'destructive' && {
+                color: theme.colors.failed?.text,
+              },
+            ]}
+          >
+            {action.label}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// styles
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  pressed: {
+    opacity: 0.6,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  cancelLabel: {
+    fontWeight: '500',
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,50 @@
+import type React from 'react';
+import { StyleSheet, Text } from 'react-native';
+import { useNotificationIcons } from '../config/icons';
+
+const DEFAULT_ICON_SIZE = 18;
+
+/**
+ * Props for the NotificationIcon component
+ * @interface NotificationIconProps
+ */
+type NotificationIconProps = {
+  /** React node to render, or the name of a registered icon */
+  icon: React.ReactNode;
+  /** Color given to registered icons and text */
+  color: string;
+  /** Size given to registered icons */
+  size?: number;
+};
+
+/**
+ * Icon or accessory displayed around the message
+ * Names are looked up in the icon registry, other strings and numbers are
+ * rendered as text ("4 min"), anything else is rendered as is
+ */
+export default function NotificationIcon({
+  icon,
+  color,
+  size = DEFAULT_ICON_SIZE,
+}: NotificationIconProps) {
+  const icons = useNotificationIcons();
+
+  const Icon = typeof icon === 'string' ? icons[icon] : undefined;
+  if (Icon) {
+    return <Icon color={color} size={size} />;
+  }
+
+  if (typeof icon === 'string' || typeof icon === 'number') {
+    return <Text style={[styles.text, { color }]}>{icon}</Text>;
+  }
+  return <>{icon}</>;
+}
+
+// ---------------------------------------------------------------------------
+// styles
+const styles = StyleSheet.create({
+  text: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
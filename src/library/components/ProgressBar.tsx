@@ -0,0 +1,72 @@
+import { useEffect } from 'react';
+import { StyleSheet } from 'react-native';
+import type { StyleProp, ViewStyle } from 'react-native';
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+
+// Duration of the fill animation between two progress values
+const FILL_DURATION = 250;
+
+/**
+ * Props for the ProgressBar component
+ * @interface ProgressBarProps
+ */
+type ProgressBarProps = {
+  /** Completed part of the task, from 0 to 1 */
+  value: number;
+  /** Color of the filled part */
+  color: string;
+  /** Color of the empty part */
+  trackColor: string;
+  /** Size and position of the bar inside the notification */
+  style?: StyleProp<ViewStyle>;
+};
+
+/**
+ * Compact determinate progress bar, the fill animates between values
+ */
+export default function ProgressBar({
+  value,
+  color,
+  trackColor,
+  style,
+}: ProgressBarProps) {
+  const progress = useSharedValue(value);
+
+  useEffect(() => {
+    progress.value = withTiming(value, { duration: FILL_DURATION });
+  }, [value, progress]);
+
+  const fillStyle = useAnimatedStyle(() => ({
+    width: `${progress.value * 100}%`,
+  }));
+
+  return (
+    <Animated.View
+      accessibilityRole="progressbar"
+      accessibilityValue={{ min: 0, max: 100, now: Math.round(value * 100) }}
+      style={[styles.track, { backgroundColor: trackColor }, style]}
+    >
+      <Animated.View
+        style={[styles.fill, { backgroundColor: color }, fillStyle]}
+      />
+    </Animated.View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// styles
+const styles = StyleSheet.create({
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+});
@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import Animated, {
+  Easing,
+  useAnimatedProps,
+  useSharedValue,
+  withDelay,
+  withTiming,
+} from 'react-native-reanimated';
+import Svg, { Path } from 'react-native-svg';
+import type { IconProps } from './types';
+
+const AnimatedPath = Animated.createAnimatedComponent(Path);
+
+// Length of each stroke of the cross
+const STROKE_LENGTH = 17;
+const STROKE_DURATION = 180;
+
+/**
+ * Cross drawn one stroke after the other when it appears
+ */
+export default function FailedIcon({ color, size }: IconProps) {
+  const firstStroke = useSharedValue(0);
+  const secondStroke = useSharedValue(0);
+
+  useEffect(() => {
+    const config = {
+      duration: STROKE_DURATION,
+      easing: Easing.out(Easing.quad),
+    };
+    firstStroke.value = withTiming(1, config);
+    secondStroke.value = withDelay(STROKE_DURATION, withTiming(1, config));
+  }, [firstStroke, secondStroke]);
+
+  const firstProps = useAnimatedProps(() => ({
+    strokeDashoffset: STROKE_LENGTH * (1 - firstStroke.value),
+  }));
+  const secondProps = useAnimatedProps(() => ({
+    strokeDashoffset: STROKE_LENGTH * (1 - secondStroke.value),
+  }));
+
+  return (
+    <Svg width={size} height={size} viewBox="0 0 24 24">
+      <AnimatedPath
+        d="M6 6L18 18"
+        stroke={color}
+        strokeWidth={2.5}
+        strokeLinecap="round"
+        strokeDasharray={STROKE_LENGTH}
+        animatedProps={firstProps}
+      />
+      <AnimatedPath
+        d="M18 6L6 18"
+        stroke={color}
+        strokeWidth={2.5}
+        strokeLinecap="round"
+        strokeDasharray={STROKE_LENGTH}
+        animatedProps={secondProps}
+      />
+    </Svg>
+  );
+}
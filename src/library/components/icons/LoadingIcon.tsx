@@ -0,0 +1,52 @@
+import { useEffect } from 'react';
+import Animated, {
+  Easing,
+  cancelAnimation,
+  useAnimatedStyle,
+  useSharedValue,
+  withRepeat,
+  withTiming,
+} from 'react-native-reanimated';
+import Svg, { Circle } from 'react-native-svg';
+import type { IconProps } from './types';
+
+const SPIN_DURATION = 800;
+
+// Circumference of the ring, three quarters of it are drawn
+const RING_LENGTH = 2 * Math.PI * 9;
+
+/**
+ * Spinning ring shown while a notification is loading
+ */
+export default function LoadingIcon({ color, size }: IconProps) {
+  const rotation = useSharedValue(0);
+
+  useEffect(() => {
+    rotation.value = withRepeat(
+      withTiming(360, { duration: SPIN_DURATION, easing: Easing.linear }),
+      -1
+    );
+    return () => cancelAnimation(rotation);
+  }, [rotation]);
+
+  const spinStyle = useAnimatedStyle(() => ({
+    transform: [{ rotate: `${rotation.value}deg` }],
+  }));
+
+  return (
+    <Animated.View style={spinStyle}>
+      <Svg width={size} height={size} viewBox="0 0 24 24">
+        <Circle
+          cx={12}
+          cy={12}
+          r={9}
+          fill="none"
+          stroke={color}
+          strokeWidth={2.5}
+          strokeLinecap="round"
+          strokeDasharray={[RING_LENGTH * 0.75, RING_LENGTH]}
+        />
+      </Svg>
+    </Animated.View>
+  );
+}
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import Animated, {
+  Easing,
+  useAnimatedProps,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+import Svg, { Path } from 'react-native-svg';
+import type { IconProps } from './types';
+
+const AnimatedPath = Animated.createAnimatedComponent(Path);
+
+// Length of the checkmark path, used to draw it with the dash offset
+const PATH_LENGTH = 20;
+const DRAW_DURATION = 350;
+
+/**
+ * Checkmark drawn stroke by stroke when it appears
+ */
+export default function SuccessIcon({ color, size }: IconProps) {
+  const drawn = useSharedValue(0);
+
+  useEffect(() => {
+    drawn.value = withTiming(1, {
+      duration: DRAW_DURATION,
+      easing: Easing.out(Easing.cubic),
+    });
+  }, [drawn]);
+
+  const animatedProps = useAnimatedProps(() => ({
+    strokeDashoffset: PATH_LENGTH * (1 - drawn.value),
+  }));
+
+  return (
+    <Svg width={size} height={size} viewBox="0 0 24 24">
+      <AnimatedPath
+        d="M5 12.5l4.5 4.5L19 7.5"
+        fill="none"
+        stroke={color}
+        strokeWidth={2.5}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeDasharray={PATH_LENGTH}
+        animatedProps={animatedProps}
+      />
+    </Svg>
+  );
+}
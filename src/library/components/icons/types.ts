@@ -0,0 +1,10 @@
+/**
+ * Props passed to every notification icon
+ * @interface IconProps
+ */
+export type IconProps = {
+  /** Stroke color, the text color of the notification */
+  color: string;
+  /** Width and height of the icon */
+  size: number;
+};
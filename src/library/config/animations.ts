@@ -0,0 +1,111 @@
+import type { WithSpringConfig } from 'react-native-reanimated';
+
+/**
+ * Springs, durations and stagger of the notification animations
+ * @interface NotificationAnimation
+ */
+export type NotificationAnimation = {
+  /** Spring of the expansion, or of the slide and scale of toasts */
+  enterSpring: WithSpringConfig;
+  /** Spring of the collapse of the island, notch and punch-hole */
+  exitSpring: WithSpringConfig;
+  /** Spring of the text when it appears or changes */
+  contentSpring: WithSpringConfig;
+  /** Spring of content resizes and stacked toast moves */
+  resizeSpring: WithSpringConfig;
+  /** Duration of fades, toast exits and reduced motion, in milliseconds */
+  duration: number;
+  /** Delay between the shape and its text, in milliseconds */
+  stagger: number;
+};
+
+/**
+ * Name of a built-in animation preset
+ */
+export type AnimationPresetName =
+  | 'snappy'
+  | 'bouncy'
+  | 'gentle'
+  | 'native-like';
+
+/**
+ * Animation of a notification: a preset name, or values merged over the
+ * default animation of the style
+ */
+export type AnimationOption =
+  | AnimationPresetName
+  | Partial<NotificationAnimation>;
+
+// Island, notch and punch-hole animation when no preset is chosen
+export const defaultAnimation: NotificationAnimation = {
+  enterSpring: { damping: 10, stiffness: 100, velocity: 3, mass: 0.5 },
+  exitSpring: { damping: 8, stiffness: 150, mass: 0.8, velocity: 3 },
+  contentSpring: { damping: 12, stiffness: 120 },
+  resizeSpring: { damping: 15, stiffness: 150 },
+  duration: 350,
+  stagger: 175,
+};
+
+// Toasts slide in with a softer spring
+export const toastAnimation: NotificationAnimation = {
+  ...defaultAnimation,
+  enterSpring: { damping: 12, stiffness: 90, mass: 0.6 },
+};
+
+export const animationPresets: Record<
+  AnimationPresetName,
+  NotificationAnimation
+> = {
+  // Quick and firm, barely any overshoot
+  'snappy': {
+    enterSpring: { damping: 18, stiffness: 260, mass: 0.6 },
+    exitSpring: { damping: 20, stiffness: 300, mass: 0.6 },
+    contentSpring: { damping: 18, stiffness: 260 },
+    resizeSpring: { damping: 20, stiffness: 280 },
+    duration: 220,
+    stagger: 90,
+  },
+  // Playful overshoot on every spring
+  'bouncy': {
+    enterSpring: { damping: 7, stiffness: 120, mass: 0.6, velocity: 4 },
+    exitSpring: { damping: 8, stiffness: 150, mass: 0.8, velocity: 3 },
+    contentSpring: { damping: 8, stiffness: 140 },
+    resizeSpring: { damping: 10, stiffness: 150 },
+    duration: 350,
+    stagger: 175,
+  },
+  // Slow and smooth, for calm interfaces
+  'gentle': {
+    enterSpring: { damping: 20, stiffness: 80, mass: 1 },
+    exitSpring: { damping: 22, stiffness: 90, mass: 1 },
+    contentSpring: { damping: 20, stiffness: 90 },
+    resizeSpring: { damping: 22, stiffness: 100 },
+    duration: 500,
+    stagger: 250,
+  },
+  // Close to the system Dynamic Island, fast with a soft landing
+  'native-like': {
+    enterSpring: { damping: 24, stiffness: 220, mass: 1 },
+    exitSpring: { damping: 26, stiffness: 240, mass: 1 },
+    contentSpring: { damping: 22, stiffness: 200 },
+    resizeSpring: { damping: 26, stiffness: 220 },
+    duration: 300,
+    stagger: 120,
+  },
+};
+
+/**
+ * Resolve the animation of a notification
+ * @param base - Default animation of the style
+ * @param animation - Preset name or values to override
+ * @returns The complete animation
+ */
+export function resolveAnimation(
+  base: NotificationAnimation,
+  animation?: AnimationOption
+): NotificationAnimation {
+  if (!animation) return base;
+  if (typeof animation === 'string') return animationPresets[animation];
+
+  return { ...base, ...animation };
+}
@@ -1,47 +1,23 @@
-export const devicesWithDynamicIsland = [
-  'iPhone14,2', // iPhone 14 Pro
-  'iPhone14,3', // iPhone 14 Pro Max
-  'iPhone15,2', // iPhone 15 Pro
-  'iPhone15,3', // iPhone 15 Pro Max
-  'iPhone16,1', // iPhone 16 Pro
-  'iPhone16,2', // iPhone 16 Pro Max
-  'iPhone16,3', // iPhone 16
-  'iPhone16,4', // iPhone 16 Plus
-  'iPhone16,5', // iPhone 16 Pro
-  'iPhone16,6', // iPhone 16 Pro Max
-  'iPhone16,7', // iPhone 16 Pro Max
-  'iPhone16,8', // iPhone 16 Pro Max
-  'arm64',
-];
-
-// Devices with notch (without Dynamic Island)
-export const devicesWithNotch = [
-  'iPhone10,3', // iPhone X
-  'iPhone10,6', // iPhone X
-  'iPhone11,2', // iPhone XS
-  'iPhone11,4', // iPhone XS Max
-  'iPhone11,6', // iPhone XS Max
-  'iPhone11,8', // iPhone XR
-  'iPhone12,1', // iPhone 11
-  'iPhone12,3', // iPhone 11 Pro
-  'iPhone12,5', // iPhone 11 Pro Max
-  'iPhone13,1', // iPhone 12 mini
-  'iPhone13,2', // iPhone 12
-  'iPhone13,3', // iPhone 12 Pro
-  'iPhone13,4', // iPhone 12 Pro Max
-  'iPhone14,4', // iPhone 13 mini
-  'iPhone14,5', // iPhone 13
-  'iPhone14,6', // iPhone 13 Pro
-  'iPhone14,7', // iPhone 13 Pro Max
-  'iPhone14,8', // iPhone 14
-];
+import * as Device from 'expo-device';
+import { Dimensions, Platform } from 'react-native';
+import { initialWindowMetrics } from 'react-native-safe-area-context';
+import type { Metrics } from 'react-native-safe-area-context';
 
 export enum DeviceType {
   DYNAMIC_ISLAND = 'dynamicIsland',
   NOTCH = 'notch',
+  PUNCH_HOLE = 'punchHole',
   STANDARD = 'standard',
 }
 
+/**
+ * How the notification style is chosen:
+ * 'modelId' looks the model up in the device list,
+ * 'insets' classifies the screen from its safe-area insets,
+ * 'hybrid' uses the device list and falls back to insets for unknown models
+ */
+export type DeviceDetection = 'modelId' | 'insets' | 'hybrid';
+
 export type DeviceAnimationConfig = {
   minWidthRatio: number; // Ratio of screen width for min width
   maxWidthRatio: number; // Ratio of screen width for max width
@@ -51,6 +27,144 @@ export type DeviceAnimationConfig = {
   initialHeight: number; // Initial height before expansion
 };
 
+/**
+ * Bounding box of a camera cutout, in points from the top left of the screen
+ * @interface DisplayCutout
+ */
+export type DisplayCutout = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Style and animation adjustments of a device model
+ * @interface DeviceRegistration
+ */
+export type DeviceRegistration = {
+  /** Notification style used on the device */
+  type: DeviceType;
+  /** Overrides of the animation configuration of the style */
+  config?: Partial<DeviceAnimationConfig>;
+  /** Marketing name, as reported by Device.modelName */
+  name?: string;
+  /** Position of the camera cutout, used by the punch-hole style */
+  cutout?: DisplayCutout;
+};
+
+// Adjustments shared by models with the same screen
+const proConfig: Partial<DeviceAnimationConfig> = {
+  minWidthRatio: 0.35,
+  maxWidthRatio: 0.8,
+  expandedHeight: 80,
+  initialScale: 0.9,
+};
+const proMaxConfig: Partial<DeviceAnimationConfig> = {
+  minWidthRatio: 0.25,
+  maxWidthRatio: 0.75,
+  expandedHeight: 80,
+  initialScale: 0.9,
+};
+const wideNotchConfig: Partial<DeviceAnimationConfig> = {
+  minWidthRatio: 0.5,
+  maxWidthRatio: 0.85,
+};
+
+// Built-in devices, keyed by model identifier
+const builtInDevices: Record<string, DeviceRegistration> = {
+  // Devices with Dynamic Island
+  'iPhone15,2': { type: DeviceType.DYNAMIC_ISLAND, name: 'iPhone 14 Pro' },
+  'iPhone15,3': { type: DeviceType.DYNAMIC_ISLAND, name: 'iPhone 14 Pro Max' },
+  'iPhone15,4': { type: DeviceType.DYNAMIC_ISLAND, name: 'iPhone 15' },
+  'iPhone15,5': { type: DeviceType.DYNAMIC_ISLAND, name: 'iPhone 15 Plus' },
+  'iPhone16,1': { type: DeviceType.DYNAMIC_ISLAND, name: 'iPhone 15 Pro' },
+  'iPhone16,2': { type: DeviceType.DYNAMIC_ISLAND, name: 'iPhone 15 Pro Max' },
+  'iPhone17,1': {
+    type: DeviceType.DYNAMIC_ISLAND,
+    name: 'iPhone 16 Pro',
+    config: proConfig,
+  },
+  'iPhone17,2': {
+    type: DeviceType.DYNAMIC_ISLAND,
+    name: 'iPhone 16 Pro Max',
+    config: proMaxConfig,
+  },
+  'iPhone17,3': { type: DeviceType.DYNAMIC_ISLAND, name: 'iPhone 16' },
+  'iPhone17,4': { type: DeviceType.DYNAMIC_ISLAND, name: 'iPhone 16 Plus' },
+  'iPhone18,1': {
+    type: DeviceType.DYNAMIC_ISLAND,
+    name: 'iPhone 17 Pro',
+    config: proConfig,
+  },
+  'iPhone18,2': {
+    type: DeviceType.DYNAMIC_ISLAND,
+    name: 'iPhone 17 Pro Max',
+    config: proMaxConfig,
+  },
+  'iPhone18,3': { type: DeviceType.DYNAMIC_ISLAND, name: 'iPhone 17' },
+  'iPhone18,4': { type: DeviceType.DYNAMIC_ISLAND, name: 'iPhone Air' },
+
+  // Devices with notch (without Dynamic Island)
+  'iPhone10,3': { type: DeviceType.NOTCH, name: 'iPhone X' },
+  'iPhone10,6': { type: DeviceType.NOTCH, name: 'iPhone X' },
+  'iPhone11,2': { type: DeviceType.NOTCH, name: 'iPhone XS' },
+  'iPhone11,4': { type: DeviceType.NOTCH, name: 'iPhone XS Max' },
+  'iPhone11,6': { type: DeviceType.NOTCH, name: 'iPhone XS Max' },
+  'iPhone11,8': { type: DeviceType.NOTCH, name: 'iPhone XR' },
+  'iPhone12,1': { type: DeviceType.NOTCH, name: 'iPhone 11' },
+  'iPhone12,3': { type: DeviceType.NOTCH, name: 'iPhone 11 Pro' },
+  'iPhone12,5': { type: DeviceType.NOTCH, name: 'iPhone 11 Pro Max' },
+  'iPhone13,1': { type: DeviceType.NOTCH, name: 'iPhone 12 mini' },
+  'iPhone13,2': { type: DeviceType.NOTCH, name: 'iPhone 12' },
+  'iPhone13,3': { type: DeviceType.NOTCH, name: 'iPhone 12 Pro' },
+  'iPhone13,4': { type: DeviceType.NOTCH, name: 'iPhone 12 Pro Max' },
+  'iPhone14,4': { type: DeviceType.NOTCH, name: 'iPhone 13 mini' },
+  'iPhone14,5': { type: DeviceType.NOTCH, name: 'iPhone 13' },
+  'iPhone14,2': { type: DeviceType.NOTCH, name: 'iPhone 13 Pro' },
+  'iPhone14,3': { type: DeviceType.NOTCH, name: 'iPhone 13 Pro Max' },
+  'iPhone14,7': {
+    type: DeviceType.NOTCH,
+    name: 'iPhone 14',
+    config: wideNotchConfig,
+  },
+  'iPhone14,8': {
+    type: DeviceType.NOTCH,
+    name: 'iPhone 14 Plus',
+    config: wideNotchConfig,
+  },
+  'iPhone17,5': { type: DeviceType.NOTCH, name: 'iPhone 16e' },
+};
+
+// Top safe-area insets of iPhones, in points. Notch models report 44 to 50,
+// Dynamic Island models 59 and up, models without cutout 20.
+const IOS_DYNAMIC_ISLAND_MIN_INSET = 55;
+const IOS_NOTCH_MIN_INSET = 40;
+// Android status bars are 24dp, punch-hole cameras make them taller
+const ANDROID_CUTOUT_MIN_INSET = 32;
+// Status bar height assumed when the insets are unavailable
+const ANDROID_STATUS_BAR_HEIGHT = 24;
+// Shortest screen side from which the device is a tablet, in points
+const TABLET_MIN_SIDE = 600;
+
+// Devices added at runtime with registerDevice, checked before built-in ones
+const registeredDevices = new Map<string, DeviceRegistration>();
+
+// Model identifiers reported by the iOS simulator
+const SIMULATOR_MODEL_IDS = ['arm64', 'x86_64', 'i386'];
+
+// Model the iOS simulator stands for, chosen with setSimulatorModel
+let simulatorModel: string | undefined;
+
+export const devicesWithDynamicIsland = Object.keys(builtInDevices).filter(
+  (modelId) => builtInDevices[modelId]?.type === DeviceType.DYNAMIC_ISLAND
+);
+
+// Devices with notch (without Dynamic Island)
+export const devicesWithNotch = Object.keys(builtInDevices).filter(
+  (modelId) => builtInDevices[modelId]?.type === DeviceType.NOTCH
+);
+
 // Default animation configuration for Dynamic Island
 const dynamicIslandConfig: DeviceAnimationConfig = {
   minWidthRatio: 0.3,
@@ -71,6 +185,16 @@ const notchConfig: DeviceAnimationConfig = {
   initialHeight: 30,
 };
 
+// Devices with a circular camera cutout (Android punch-hole)
+const punchHoleConfig: DeviceAnimationConfig = {
+  minWidthRatio: 0.3,
+  maxWidthRatio: 0.9,
+  expandedHeight: 72,
+  borderRadius: 28,
+  initialScale: 0.8,
+  initialHeight: 24, // Diameter of the camera when its cutout is unknown
+};
+
 // Standard devices (no notch, no dynamic island)
 const standardConfig: DeviceAnimationConfig = {
   minWidthRatio: 0.3,
@@ -81,65 +205,150 @@ const standardConfig: DeviceAnimationConfig = {
   initialHeight: 0, // Starts fully hidden and then appears
 };
 
-// Special configurations for specific devices
-const deviceSpecificConfigs: Record<string, Partial<DeviceAnimationConfig>> = {
-  // iPhone 16 Pro specific adjustments
-  'iPhone16,1': {
-    minWidthRatio: 0.35,
-    maxWidthRatio: 0.8,
-    expandedHeight: 80,
-    initialScale: 0.9,
-  },
-  'iPhone16,5': {
-    minWidthRatio: 0.35,
-    maxWidthRatio: 0.8,
-    expandedHeight: 80,
-    initialScale: 0.9,
-  },
-  // iPhone 16 Pro Max specific adjustments
-  'iPhone16,2': {
-    minWidthRatio: 0.25,
-    maxWidthRatio: 0.75,
-    expandedHeight: 80,
-    initialScale: 0.9,
-  },
-  'iPhone16,6': {
-    minWidthRatio: 0.25,
-    maxWidthRatio: 0.75,
-    expandedHeight: 80,
-    initialScale: 0.9,
-  },
-  // iPhone 15/14 notch adjustments
-  'iPhone15,4': {
-    minWidthRatio: 0.5,
-    maxWidthRatio: 0.85,
-  },
-  'iPhone14,8': {
-    minWidthRatio: 0.5,
-    maxWidthRatio: 0.85,
-  },
-};
+/**
+ * Register a device model, or change how a built-in one is handled.
+ * Lets apps support new iPhones without waiting for a library release.
+ * @param modelId - Model identifier, e.g. "iPhone18,1"
+ * @param registration - Notification style and animation overrides
+ */
+export function registerDevice(
+  modelId: string,
+  registration: DeviceRegistration
+) {
+  registeredDevices.set(modelId, registration);
+}
+
+/**
+ * Remove a device registered with registerDevice, built-in models are
+ * handled as shipped again
+ * @param modelId - Model identifier passed to registerDevice
+ */
+export function unregisterDevice(modelId: string) {
+  registeredDevices.delete(modelId);
+}
+
+/**
+ * Find the registration of a model, runtime registrations first
+ */
+function findDevice(modelId: string): DeviceRegistration | undefined {
+  return registeredDevices.get(modelId) ?? builtInDevices[modelId];
+}
+
+/**
+ * Find the model identifier matching a marketing name
+ */
+function findModelIdByName(name: string): string | undefined {
+  const devices = [
+    ...registeredDevices.entries(),
+    ...Object.entries(builtInDevices),
+  ];
+  return devices.find(([, device]) => device.name === name)?.[0];
+}
+
+/**
+ * Choose the model the iOS simulator stands for. The simulator reports its
+ * CPU architecture instead of a model, call this before the provider mounts.
+ * @param model - Model identifier or name, e.g. "iPhone 16 Pro", undefined to reset
+ */
+export function setSimulatorModel(model: string | undefined) {
+  simulatorModel = model;
+}
+
+/**
+ * Model identifier of the current device.
+ * On the iOS simulator, the model chosen with setSimulatorModel. Android has
+ * no model identifier, models are matched by Device.modelName.
+ * @returns The model identifier, undefined when it cannot be resolved
+ */
+export function getCurrentModelId(): string | undefined {
+  const modelId: string | null = Device.modelId;
+  if (modelId && SIMULATOR_MODEL_IDS.includes(modelId)) {
+    if (!simulatorModel) return undefined;
+
+    return findDevice(simulatorModel)
+      ? simulatorModel
+      : findModelIdByName(simulatorModel);
+  }
+  if (modelId) return modelId;
+
+  return Device.modelName ? findModelIdByName(Device.modelName) : undefined;
+}
 
 export function detectDeviceType(deviceId: string | undefined): DeviceType {
   if (!deviceId) return DeviceType.STANDARD;
 
-  if (devicesWithDynamicIsland.includes(deviceId)) {
-    return DeviceType.DYNAMIC_ISLAND;
+  return findDevice(deviceId)?.type ?? DeviceType.STANDARD;
+}
+
+/**
+ * Classify the screen from its safe-area insets and dimensions.
+ * Works for models missing from the device list, including future ones.
+ * @param metrics - Window frame and insets, defaults to the initial window
+ * @returns The device type, STANDARD when the metrics are unavailable
+ */
+export function detectDeviceTypeFromInsets(
+  metrics: Metrics | null = initialWindowMetrics
+): DeviceType {
+  if (!metrics) return DeviceType.STANDARD;
+
+  const { frame, insets } = metrics;
+  // Tablets have no cutout to expand from
+  if (isLargeScreen(frame.width, frame.height)) {
+    return DeviceType.STANDARD;
   }
 
-  if (devicesWithNotch.includes(deviceId)) {
-    return DeviceType.NOTCH;
+  // In landscape the cutout is on one of the sides
+  const cutoutInset =
+    frame.width > frame.height
+      ? Math.max(insets.left, insets.right)
+      : insets.top;
+
+  if (Platform.OS === 'ios') {
+    if (cutoutInset >= IOS_DYNAMIC_ISLAND_MIN_INSET) {
+      return DeviceType.DYNAMIC_ISLAND;
+    }
+    if (cutoutInset >= IOS_NOTCH_MIN_INSET) return DeviceType.NOTCH;
+    return DeviceType.STANDARD;
   }
 
-  return DeviceType.STANDARD;
+  return cutoutInset >= ANDROID_CUTOUT_MIN_INSET
+    ? DeviceType.PUNCH_HOLE
+    : DeviceType.STANDARD;
+}
+
+/**
+ * Whether a window is the size of a tablet screen, such as an iPad or a
+ * large split-screen window
+ * @param width - Window width in points
+ * @param height - Window height in points
+ */
+export function isLargeScreen(width: number, height: number): boolean {
+  return Math.min(width, height) >= TABLET_MIN_SIDE;
+}
+
+/**
+ * Detect the device type of the current device
+ * @param detection - Detection strategy, default 'hybrid'
+ * @returns The device type used for notifications
+ */
+export function detectCurrentDeviceType(
+  detection: DeviceDetection = 'hybrid'
+): DeviceType {
+  if (detection === 'insets') return detectDeviceTypeFromInsets();
+
+  const deviceId = getCurrentModelId();
+  if (detection === 'hybrid' && !(deviceId && findDevice(deviceId))) {
+    return detectDeviceTypeFromInsets();
+  }
+  return detectDeviceType(deviceId);
 }
 
 export function hasDynamicIsland(deviceId: string | undefined): boolean {
-  return devicesWithDynamicIsland.includes(deviceId || '');
+  return detectDeviceType(deviceId) === DeviceType.DYNAMIC_ISLAND;
 }
 
 export function hasNotch(deviceId: string | undefined): boolean {
-  return devicesWithNotch.includes(deviceId || '');
+  return detectDeviceType(deviceId) === DeviceType.NOTCH;
 }
 
 export function getDeviceAnimationConfig(
@@ -158,12 +367,15 @@ export function getDeviceAnimationConfig(
     case DeviceType.NOTCH:
       baseConfig = notchConfig;
       break;
+    case DeviceType.PUNCH_HOLE:
+      baseConfig = punchHoleConfig;
+      break;
     default:
       baseConfig = standardConfig;
   }
 
   // Apply device-specific overrides if available
-  const specificConfig = deviceId ? deviceSpecificConfigs[deviceId] || {} : {};
+  const specificConfig = deviceId ? findDevice(deviceId)?.config || {} : {};
 
   // Merge base config with device-specific overrides
   return {
@@ -171,3 +383,33 @@ export function getDeviceAnimationConfig(
     ...specificConfig,
   };
 }
+
+/**
+ * Camera cutout of a device, for the punch-hole style.
+ * Registered cutouts are used as is, otherwise a camera of the configured
+ * diameter is assumed, centered in the status bar.
+ * @param deviceId - Model identifier of the device
+ * @param metrics - Window frame and insets, defaults to the initial window
+ * @returns The bounding box of the cutout
+ */
+export function getDisplayCutout(
+  deviceId: string | undefined,
+  metrics: Metrics | null = initialWindowMetrics
+): DisplayCutout {
+  const registered = deviceId ? findDevice(deviceId)?.cutout : undefined;
+  if (registered) return registered;
+
+  const size = getDeviceAnimationConfig(
+    deviceId,
+    DeviceType.PUNCH_HOLE
+  ).initialHeight;
+  const screenWidth = metrics?.frame.width ?? Dimensions.get('window').width;
+  const statusBarHeight = metrics?.insets.top ?? ANDROID_STATUS_BAR_HEIGHT;
+
+  return {
+    x: (screenWidth - size) / 2,
+    y: Math.max((statusBarHeight - size) / 2, 0),
+    width: size,
+    height: size,
+  };
+}
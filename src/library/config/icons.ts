@@ -0,0 +1,34 @@
+import type React from 'react';
+import { createContext, useContext } from 'react';
+import SuccessIcon from '../components/icons/SuccessIcon';
+import FailedIcon from '../components/icons/FailedIcon';
+import LoadingIcon from '../components/icons/LoadingIcon';
+import type { IconProps } from '../components/icons/types';
+
+/**
+ * Component drawing an icon, receives the notification color and the size
+ */
+export type NotificationIconComponent = React.ComponentType<IconProps>;
+
+/**
+ * Icons usable by name in the icon and leading options, keyed by name
+ */
+export type NotificationIconRegistry = Record<
+  string,
+  NotificationIconComponent
+>;
+
+export const defaultIcons: NotificationIconRegistry = {
+  checkmark: SuccessIcon,
+  cross: FailedIcon,
+  spinner: LoadingIcon,
+};
+
+export const NotificationIconsContext =
+  createContext<NotificationIconRegistry>(defaultIcons);
+
+/**
+ * Hook to access the icons registered on the closest NotificationProvider
+ * @returns The registered icons, built-in ones included
+ */
+export const useNotificationIcons = () => useContext(NotificationIconsContext);
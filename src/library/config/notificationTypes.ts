@@ -0,0 +1,103 @@
+import type React from 'react';
+import { createContext, useContext } from 'react';
+import type {
+  BuiltInNotificationType,
+  HapticKind,
+  NotificationType,
+} from '../types';
+import type { NotificationTypeColors } from './theme';
+
+/**
+ * Configuration of a notification type
+ * @interface NotificationTypeConfig
+ */
+export type NotificationTypeConfig = {
+  /** Text and border colors, merged into the theme colors */
+  colors?: NotificationTypeColors;
+  /** Icon displayed before the message, a React node or a registered icon name */
+  icon?: React.ReactNode;
+  /** Haptic feedback played when the notification appears, default 'medium' */
+  haptic?: HapticKind;
+  /** Default auto-hide delay in milliseconds */
+  duration?: number;
+  /** Spoken before the message by screen readers, e.g. "Error" */
+  accessibilityPrefix?: string;
+};
+
+/**
+ * Notification types available to the components, keyed by name
+ */
+export type NotificationTypeRegistry = Record<string, NotificationTypeConfig>;
+
+export const defaultNotificationTypes: Record<
+  BuiltInNotificationType,
+  NotificationTypeConfig
+> = {
+  success: {
+    icon: 'checkmark',
+    haptic: 'success',
+    accessibilityPrefix: 'Success',
+  },
+  failed: { icon: 'cross', haptic: 'error', accessibilityPrefix: 'Error' },
+  loading: {
+    icon: 'spinner',
+    haptic: 'medium',
+    accessibilityPrefix: 'Loading',
+  },
+  default: { haptic: 'medium' },
+  warning: { haptic: 'warning', accessibilityPrefix: 'Warning' },
+  info: { haptic: 'light', accessibilityPrefix: 'Info' },
+};
+
+/**
+ * Merge registered types into a registry, fields of existing types are
+ * replaced one by one
+ * @param base - Registry to extend
+ * @param types - Types to add or override
+ * @returns A new registry
+ */
+export const mergeNotificationTypes = (
+  base: NotificationTypeRegistry,
+  types?: NotificationTypeRegistry
+): NotificationTypeRegistry => {
+  if (!types) return base;
+
+  const merged = { ...base };
+  Object.entries(types).forEach(([name, config]) => {
+    merged[name] = { ...merged[name], ...config };
+  });
+  return merged;
+};
+
+/**
+ * Collect the colors of the registered types, to merge them into the theme
+ * @param types - Registry to read
+ * @returns Colors keyed by type name
+ */
+export const getNotificationTypeColors = (
+  types: NotificationTypeRegistry
+): Record<string, NotificationTypeColors> => {
+  const colors: Record<string, NotificationTypeColors> = {};
+  Object.entries(types).forEach(([name, config]) => {
+    if (config.colors) {
+      colors[name] = config.colors;
+    }
+  });
+  return colors;
+};
+
+export const NotificationTypesContext = createContext<NotificationTypeRegistry>(
+  defaultNotificationTypes
+);
+
+/**
+ * Hook to access the configuration of a notification type
+ * @param type - Name of the type
+ * @returns The registered configuration, or the default type one
+ */
+export const useNotificationType = (
+  type: NotificationType
+): NotificationTypeConfig => {
+  const types = useContext(NotificationTypesContext);
+  return types[type] ?? types.default ?? {};
+};
@@ -0,0 +1,36 @@
+import type React from 'react';
+import type { BuiltInNotificationStyle, NotificationProps } from '../types';
+
+/**
+ * Component rendering a notification style
+ */
+export type NotificationRenderer = React.ComponentType<NotificationProps>;
+
+/**
+ * Renderers keyed by style name, built-in names replace the built-in styles
+ */
+export type NotificationRendererRegistry = Partial<
+  Record<BuiltInNotificationStyle, NotificationRenderer>
+> &
+  Record<string, NotificationRenderer>;
+
+// Renderers added at runtime with registerRenderer
+const registeredRenderers = new Map<string, NotificationRenderer>();
+
+/**
+ * Register a notification style, or replace a built-in one.
+ * The name can then be used in forceStyle.
+ * @param name - Style name, e.g. "banner" or "dynamicIsland"
+ * @param renderer - Component implementing the NotificationProps contract
+ */
+export function registerRenderer(name: string, renderer: NotificationRenderer) {
+  registeredRenderers.set(name, renderer);
+}
+
+/**
+ * Renderers added with registerRenderer
+ * @returns The registered renderers, keyed by name
+ */
+export function getRegisteredRenderers(): NotificationRendererRegistry {
+  return Object.fromEntries(registeredRenderers);
+}
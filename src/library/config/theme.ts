@@ -0,0 +1,197 @@
+import { createContext, useContext } from 'react';
+import type { TextStyle } from 'react-native';
+import type { BuiltInNotificationType } from '../types';
+
+/**
+ * Value defined for each notification style
+ */
+export type StyleTokens<T> = {
+  dynamicIsland: T;
+  notch: T;
+  punchHole: T;
+  toast: T;
+};
+
+/**
+ * Colors of a notification type
+ * @interface NotificationTypeColors
+ */
+export type NotificationTypeColors = {
+  /** Text and accent color, falls back to the text color of the style */
+  text?: string;
+  /** Border color, falls back to the border color of the style */
+  border?: string;
+};
+
+/**
+ * Shadow applied when showShadow is enabled
+ * @interface NotificationShadow
+ */
+export type NotificationShadow = {
+  /** Shadow color, falls back to the text color of the notification */
+  color?: string;
+  offset: { width: number; height: number };
+  opacity: number;
+  radius: number;
+  /** Android elevation */
+  elevation: number;
+};
+
+/**
+ * Design tokens used by every notification component
+ * @interface NotificationTheme
+ */
+export type NotificationTheme = {
+  /** Colors of each notification type, registered types included */
+  colors: Partial<Record<BuiltInNotificationType, NotificationTypeColors>> &
+    Record<string, NotificationTypeColors>;
+  /** Text color of each style, used by types without their own text color */
+  text: StyleTokens<string>;
+  /** Background color of each style */
+  background: StyleTokens<string>;
+  /** Background color of the action buttons in each style */
+  actionBackground: StyleTokens<string>;
+  /** Border width and default border color of each style */
+  border: {
+    width: StyleTokens<number>;
+    color: StyleTokens<string>;
+  };
+  /** Text styles of the message */
+  typography: {
+    fontSize: StyleTokens<number>;
+    fontWeight: TextStyle['fontWeight'];
+    /** Size of success and failed messages on the island, notch and punch-hole */
+    accentFontSize: number;
+    accentFontWeight: TextStyle['fontWeight'];
+  };
+  /**
+   * Border radius of each style, island, notch and punch-hole default to the
+   * device config
+   */
+  radii: {
+    dynamicIsland?: number;
+    notch?: number;
+    punchHole?: number;
+    toast: number;
+  };
+  /** Shadow of each style */
+  shadow: StyleTokens<NotificationShadow>;
+};
+
+/**
+ * Theme overrides, every token is optional
+ */
+export type NotificationThemeOverrides = {
+  [K in keyof NotificationTheme]?: NotificationTheme[K] extends object
+    ? { [P in keyof NotificationTheme[K]]?: Partial<NotificationTheme[K][P]> }
+    : NotificationTheme[K];
+};
+
+const glowShadow: NotificationShadow = {
+  offset: { width: 0, height: 0 },
+  opacity: 0.3,
+  radius: 15,
+  elevation: 25,
+};
+
+export const defaultTheme: NotificationTheme = {
+  colors: {
+    success: { text: '#4CAF50', border: 'rgba(76, 175, 80, 0.3)' },
+    failed: { text: '#F44336', border: 'rgba(244, 67, 54, 0.3)' },
+    warning: { text: '#FF9800', border: 'rgba(255, 152, 0, 0.3)' },
+    info: { text: '#2196F3', border: 'rgba(33, 150, 243, 0.3)' },
+  },
+  text: {
+    dynamicIsland: '#FFFFFF',
+    notch: '#FFFFFF',
+    punchHole: '#FFFFFF',
+    toast: '#FFFFFF',
+  },
+  background: {
+    dynamicIsland: 'black',
+    notch: 'black',
+    punchHole: 'black',
+    toast: 'rgba(0, 0, 0, 0.95)',
+  },
+  actionBackground: {
+    dynamicIsland: 'rgba(255, 255, 255, 0.15)',
+    notch: 'rgba(255, 255, 255, 0.15)',
+    punchHole: 'rgba(255, 255, 255, 0.15)',
+    toast: 'rgba(255, 255, 255, 0.15)',
+  },
+  border: {
+    width: { dynamicIsland: 0.5, notch: 0.5, punchHole: 0.5, toast: 1 },
+    color: {
+      dynamicIsland: 'rgba(255, 255, 255, 0.1)',
+      notch: 'rgba(255, 255, 255, 0.1)',
+      punchHole: 'rgba(255, 255, 255, 0.1)',
+      toast: 'rgba(255, 255, 255, 0.2)',
+    },
+  },
+  typography: {
+    fontSize: { dynamicIsland: 16, notch: 16, punchHole: 16, toast: 15 },
+    fontWeight: '600',
+    accentFontSize: 17,
+    accentFontWeight: '700',
+  },
+  radii: {
+    toast: 20,
+  },
+  shadow: {
+    dynamicIsland: glowShadow,
+    notch: glowShadow,
+    punchHole: glowShadow,
+    toast: {
+      color: '#000000',
+      offset: { width: 0, height: 3 },
+      opacity: 0.3,
+      radius: 5,
+      elevation: 6,
+    },
+  },
+};
+
+/**
+ * Toast palette of the light color scheme, merged over the default theme.
+ * The island, notch and punch-hole stay black to blend with the camera cutout.
+ */
+export const lightTheme: NotificationThemeOverrides = {
+  text: { toast: '#1C1C1E' },
+  background: { toast: 'rgba(255, 255, 255, 0.97)' },
+  actionBackground: { toast: 'rgba(0, 0, 0, 0.06)' },
+  border: { color: { toast: 'rgba(0, 0, 0, 0.1)' } },
+  shadow: { toast: { opacity: 0.15 } },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Deep merge theme overrides into a base theme
+ * @param base - Complete theme
+ * @param overrides - Tokens to replace
+ * @returns A new complete theme
+ */
+export function mergeTheme<T extends object>(base: T, overrides?: object): T {
+  if (!overrides) return base;
+
+  const merged = { ...base } as Record<string, unknown>;
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (value === undefined) return;
+    const current = merged[key];
+    merged[key] =
+      isPlainObject(current) && isPlainObject(value)
+        ? mergeTheme(current, value)
+        : value;
+  });
+  return merged as T;
+}
+
+export const NotificationThemeContext =
+  createContext<NotificationTheme>(defaultTheme);
+
+/**
+ * Hook to access the notification theme of the closest NotificationProvider
+ * @returns The merged theme, or the default theme outside a provider
+ */
+export const useNotificationTheme = () => useContext(NotificationThemeContext);
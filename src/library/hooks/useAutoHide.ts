@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  cancelAnimation,
+  Easing,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+
+/**
+ * Options for the auto-hide timer
+ * @interface AutoHideOptions
+ */
+type AutoHideOptions = {
+  /** Total delay before hiding in milliseconds */
+  delay: number;
+  /** Whether the timer runs at all */
+  enabled: boolean;
+  /** Restart the timer from the full delay whenever this value changes */
+  resetKey?: unknown;
+  /** Called when the delay has elapsed */
+  onTimeout: () => void;
+};
+
+/**
+ * Pausable auto-hide timer
+ * @returns progress - shared value going from 1 to 0 while the delay elapses
+ * @returns pause - stop the timer, keeping the remaining time
+ * @returns resume - restart the timer with the remaining time
+ */
+export function useAutoHide({
+  delay,
+  enabled,
+  resetKey,
+  onTimeout,
+}: AutoHideOptions) {
+  const progress = useSharedValue(1);
+
+  const timeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  /** time left when the timer was last started or paused */
+  const remaining = useRef(delay);
+  const startedAt = useRef(0);
+  const paused = useRef(false);
+
+  // Always call the latest callback without restarting the timer
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  const clear = useCallback(() => {
+    if (timeout.current) {
+      clearTimeout(timeout.current);
+      timeout.current = null;
+    }
+  }, []);
+
+  const start = useCallback(
+    (duration: number) => {
+      startedAt.current = Date.now();
+      timeout.current = setTimeout(() => {
+        timeout.current = null;
+        onTimeoutRef.current();
+      }, duration);
+
+      progress.value = withTiming(0, { duration, easing: Easing.linear });
+    },
+    [progress]
+  );
+
+  useEffect(() => {
+    paused.current = false;
+    progress.value = 1;
+    if (!enabled) return;
+
+    remaining.current = delay;
+    start(delay);
+    return clear;
+  }, [delay, enabled, resetKey, start, clear, progress]);
+
+  const pause = () => {
+    if (!timeout.current) return;
+
+    clear();
+    paused.current = true;
+    remaining.current = Math.max(
+      remaining.current - (Date.now() - startedAt.current),
+      0
+    );
+    cancelAnimation(progress);
+  };
+
+  const resume = () => {
+    if (!paused.current || !enabled) return;
+
+    paused.current = false;
+    start(remaining.current);
+  };
+
+  return { progress, pause, resume };
+}
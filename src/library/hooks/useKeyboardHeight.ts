@@ -0,0 +1,50 @@
+import { useEffect } from 'react';
+import { Keyboard, Platform } from 'react-native';
+import type { KeyboardEvent } from 'react-native';
+import { useSharedValue, withTiming } from 'react-native-reanimated';
+
+// Android only emits the "did" events
+const SHOW_EVENT =
+  Platform.OS === 'ios' ? 'keyboardWillShow' : 'keyboardDidShow';
+const HIDE_EVENT =
+  Platform.OS === 'ios' ? 'keyboardWillHide' : 'keyboardDidHide';
+const DEFAULT_DURATION = 250;
+
+/**
+ * Height of the software keyboard, animated along with the keyboard
+ * @param enabled - Listen to keyboard events, the height stays 0 otherwise
+ * @returns Shared value with the visible keyboard height
+ */
+export function useKeyboardHeight(enabled: boolean) {
+  const height = useSharedValue(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const animateTo = (value: number, event?: KeyboardEvent) => {
+      height.value = withTiming(value, {
+        duration: event?.duration || DEFAULT_DURATION,
+      });
+    };
+
+    // The keyboard may already be open when the notification appears
+    const metrics = Keyboard.metrics();
+    if (metrics) {
+      height.value = metrics.height;
+    }
+
+    const showSubscription = Keyboard.addListener(SHOW_EVENT, (event) =>
+      animateTo(event.endCoordinates.height, event)
+    );
+    const hideSubscription = Keyboard.addListener(HIDE_EVENT, (event) =>
+      animateTo(0, event)
+    );
+
+    return () => {
+      showSubscription.remove();
+      hideSubscription.remove();
+    };
+  }, [enabled, height]);
+
+  return height;
+}
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react';
+import { AccessibilityInfo, Platform } from 'react-native';
+import type { AccessibilityActionEvent } from 'react-native';
+
+// Screen reader users need more time to reach and hear a notification
+export const SCREEN_READER_DELAY_FACTOR = 3;
+
+const DISMISS_ACTIONS = [
+  { name: 'dismiss', label: 'Dismiss' },
+  // Two-finger scrub on VoiceOver
+  { name: 'escape', label: 'Dismiss' },
+];
+
+/**
+ * Options for the notification accessibility
+ * @interface NotificationAccessibilityOptions
+ */
+type NotificationAccessibilityOptions = {
+  /** Text read by screen readers, empty for custom content without label */
+  message: string;
+  /** Spoken before the message, e.g. "Error" */
+  prefix?: string;
+  /** Whether the notification reports an error, announced assertively */
+  urgent: boolean;
+  /** Whether the notification contains focusable buttons */
+  interactive: boolean;
+  /** Called when the accessibility dismiss action is performed */
+  onDismiss: () => void;
+};
+
+/**
+ * Track whether VoiceOver or TalkBack is running
+ * @returns true while a screen reader is enabled
+ */
+export function useScreenReaderEnabled() {
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    AccessibilityInfo.isScreenReaderEnabled().then((value) => {
+      if (active) setEnabled(value);
+    });
+
+    const subscription = AccessibilityInfo.addEventListener(
+      'screenReaderChanged',
+      setEnabled
+    );
+    return () => {
+      active = false;
+      subscription.remove();
+    };
+  }, []);
+
+  return enabled;
+}
+
+/**
+ * Announce a notification to screen readers and describe it to them
+ * @returns screenReaderEnabled - whether a screen reader is running
+ * @returns accessibilityProps - props for the pressable wrapping the notification
+ */
+export function useNotificationAccessibility({
+  message,
+  prefix,
+  urgent,
+  interactive,
+  onDismiss,
+}: NotificationAccessibilityOptions) {
+  const screenReaderEnabled = useScreenReaderEnabled();
+  const label = message && prefix ? `${prefix}: ${message}` : message;
+
+  // Announce on appear, then on every change of the message or type.
+  // Android live regions already read the changes, so only iOS re-announces.
+  const announced = useRef(false);
+  useEffect(() => {
+    if (!label) return;
+    if (announced.current && Platform.OS !== 'ios') return;
+
+    announced.current = true;
+    AccessibilityInfo.announceForAccessibility(label);
+  }, [label]);
+
+  const onAccessibilityAction = (event: AccessibilityActionEvent) => {
+    const { actionName } = event.nativeEvent;
+    if (actionName === 'dismiss' || actionName === 'escape') {
+      onDismiss();
+    }
+  };
+
+  return {
+    screenReaderEnabled,
+    accessibilityProps: {
+      // Buttons inside must stay focusable, so the notification only
+      // becomes a single element when it has none
+      accessible: !interactive,
+      accessibilityRole: 'alert' as const,
+      accessibilityLabel: label || undefined,
+      accessibilityLiveRegion: urgent
+        ? ('assertive' as const)
+        : ('polite' as const),
+      accessibilityActions: DISMISS_ACTIONS,
+      onAccessibilityAction,
+    },
+  };
+}
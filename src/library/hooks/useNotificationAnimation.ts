@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { resolveAnimation } from '../config/animations';
+import type {
+  AnimationOption,
+  NotificationAnimation,
+} from '../config/animations';
+
+/**
+ * Resolve the animation of a notification once per animation option
+ * @param base - Default animation of the style
+ * @param animation - Preset name or values to override
+ * @returns The complete animation, stable unless the option changes
+ */
+export function useNotificationAnimation(
+  base: NotificationAnimation,
+  animation?: AnimationOption
+): NotificationAnimation {
+  return useMemo(() => resolveAnimation(base, animation), [base, animation]);
+}
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { withSequence, withSpring, withTiming } from 'react-native-reanimated';
+import type { SharedValue, WithSpringConfig } from 'react-native-reanimated';
+import { useAutoHide } from './useAutoHide';
+import {
+  SCREEN_READER_DELAY_FACTOR,
+  useNotificationAccessibility,
+} from './useNotificationAccessibility';
+import type { NotificationTypeConfig } from '../config/notificationTypes';
+import { triggerHaptic } from '../utils/haptics';
+import type { DismissReason, NotificationType } from '../types';
+
+const DEFAULT_AUTO_HIDE_DELAY = 3000;
+
+/**
+ * Options for the notification lifecycle
+ * @interface NotificationLifecycleOptions
+ */
+type NotificationLifecycleOptions = {
+  /** Text message of the notification */
+  message: string;
+  /** Type of notification */
+  type: NotificationType;
+  /** Configuration registered for the type */
+  typeConfig: NotificationTypeConfig;
+  /** Whether the notification contains buttons */
+  interactive: boolean;
+  /** Auto-hide delay in milliseconds, defaults to the delay of the type */
+  autoHideDelay?: number;
+  /** Keep the notification until it is dismissed */
+  disableAutoHide?: boolean;
+  /** Trigger haptic feedback when the notification appears or changes type */
+  enableHaptics: boolean;
+  /** Whether motion is reduced */
+  reduceMotion: boolean;
+  /** Duration of fades, in milliseconds */
+  duration: number;
+  /** Spring of the text when it changes */
+  contentSpring: WithSpringConfig;
+  /** Scale pulsed when the message or type changes */
+  contentScale: SharedValue<number>;
+  /** Opacity cross-faded instead of the pulse when motion is reduced */
+  contentOpacity: SharedValue<number>;
+  /** Hide routine of the notification, with the reason of the dismissal */
+  hide: (reason: DismissReason) => void;
+};
+
+/**
+ * Behaviour shared by every notification style: haptics, the morph when
+ * the content changes, screen reader support and the auto-hide timer
+ * @returns close - stable function running the latest hide routine
+ * @returns accessibilityProps - props for the pressable wrapping the notification
+ * @returns autoHideProgress - shared value going from 1 to 0 until the notification hides
+ * @returns pauseAutoHide - stop the auto-hide timer while pressed
+ * @returns resumeAutoHide - restart the auto-hide timer
+ */
+export function useNotificationLifecycle({
+  message,
+  type,
+  typeConfig,
+  interactive,
+  autoHideDelay,
+  disableAutoHide,
+  enableHaptics,
+  reduceMotion,
+  duration,
+  contentSpring,
+  contentScale,
+  contentOpacity,
+  hide,
+}: NotificationLifecycleOptions) {
+  // The close function is exposed once, it always runs the latest routine
+  const hideRef = useRef(hide);
+  hideRef.current = hide;
+  const close = useCallback(() => hideRef.current('programmatic'), []);
+
+  // Trigger haptic feedback when the notification appears or changes type
+  const hapticKind = typeConfig.haptic ?? 'medium';
+
+  useEffect(() => {
+    if (!enableHaptics) return;
+
+    triggerHaptic(hapticKind);
+  }, [enableHaptics, type, hapticKind]);
+
+  // Morph in place when the message or type changes on a visible notification.
+  // The animation is read through a ref, so new spring objects or a Reduce
+  // Motion toggle do not replay the morph.
+  const morphAnimationRef = useRef({ reduceMotion, duration, contentSpring });
+  morphAnimationRef.current = { reduceMotion, duration, contentSpring };
+  const hasMounted = useRef(false);
+  useEffect(() => {
+    if (!hasMounted.current) {
+      hasMounted.current = true;
+      return;
+    }
+
+    const {
+      reduceMotion: reduced,
+      duration: morphDuration,
+      contentSpring: morphSpring,
+    } = morphAnimationRef.current;
+    if (reduced) {
+      // Cross-fade the new content instead of pulsing it
+      contentOpacity.value = withSequence(
+        withTiming(0.3, { duration: morphDuration / 4 }),
+        withTiming(1, { duration: morphDuration / 2 })
+      );
+      return;
+    }
+
+    contentScale.value = withSequence(
+      withTiming(0.9, { duration: morphDuration / 4 }),
+      withSpring(1, morphSpring)
+    );
+  }, [message, type, contentScale, contentOpacity]);
+
+  // Announce the notification and expose it to screen readers
+  const { screenReaderEnabled, accessibilityProps } =
+    useNotificationAccessibility({
+      message,
+      prefix: typeConfig.accessibilityPrefix,
+      urgent: type === 'failed',
+      interactive,
+      onDismiss: () => hide('tap'),
+    });
+
+  // Auto-hide timer, paused while pressed and restarted when the type
+  // changes (loading never hides). Screen reader users get a longer delay,
+  // and notifications with buttons wait for them to be used.
+  const baseAutoHideDelay =
+    autoHideDelay || typeConfig.duration || DEFAULT_AUTO_HIDE_DELAY;
+  const {
+    progress: autoHideProgress,
+    pause: pauseAutoHide,
+    resume: resumeAutoHide,
+  } = useAutoHide({
+    delay: screenReaderEnabled
+      ? baseAutoHideDelay * SCREEN_READER_DELAY_FACTOR
+      : baseAutoHideDelay,
+    enabled:
+      !disableAutoHide &&
+      type !== 'loading' &&
+      !(screenReaderEnabled && interactive),
+    resetKey: type,
+    onTimeout: () => hide('timeout'),
+  });
+
+  return {
+    close,
+    accessibilityProps,
+    autoHideProgress,
+    pauseAutoHide,
+    resumeAutoHide,
+  };
+}
@@ -0,0 +1,44 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { AccessibilityInfo } from 'react-native';
+import type { ReduceMotionSetting } from '../types';
+
+/**
+ * Whether notifications should cross-fade instead of moving, resolved by
+ * the provider so it is known before a notification mounts
+ */
+export const ReduceMotionContext = createContext(false);
+
+/**
+ * Track the Reduce Motion accessibility setting and apply the override
+ * @param setting - 'system' follows the device, 'always' and 'never' force it
+ * @returns true when motion should be reduced
+ */
+export function useReduceMotionSetting(setting: ReduceMotionSetting) {
+  const [systemEnabled, setSystemEnabled] = useState(false);
+
+  useEffect(() => {
+    if (setting !== 'system') return;
+
+    let active = true;
+    AccessibilityInfo.isReduceMotionEnabled().then((value) => {
+      if (active) setSystemEnabled(value);
+    });
+
+    const subscription = AccessibilityInfo.addEventListener(
+      'reduceMotionChanged',
+      setSystemEnabled
+    );
+    return () => {
+      active = false;
+      subscription.remove();
+    };
+  }, [setting]);
+
+  return setting === 'always' || (setting === 'system' && systemEnabled);
+}
+
+/**
+ * Hook to know whether notifications should cross-fade instead of moving
+ * @returns The value resolved by the closest NotificationProvider
+ */
+export const useReduceMotion = () => useContext(ReduceMotionContext);
@@ -0,0 +1,93 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { Gesture } from 'react-native-gesture-handler';
+import { runOnJS, useSharedValue, withSpring } from 'react-native-reanimated';
+
+// ---------------------------------------------------------------------------
+// constants
+const DISMISS_DISTANCE = 40; // Drag distance past which the swipe dismisses
+const DISMISS_VELOCITY = 500; // Fling velocity (px/s) that dismisses right away
+const RUBBER_BAND_LIMIT = 30; // Maximum distance when pulling the wrong way
+const ACTIVATION_OFFSET = 10;
+
+/**
+ * Direction in which a notification can be swiped away
+ * - up: Dynamic Island, Notch and punch-hole notifications, pulling down rubber-bands
+ * - horizontal: toasts, pulling vertically rubber-bands
+ */
+export type SwipeDirection = 'up' | 'horizontal';
+
+/**
+ * Resistance applied to drags that do not dismiss the notification,
+ * the result approaches the limit without ever reaching it
+ */
+const rubberBand = (distance: number, limit: number) => {
+  'worklet';
+  return (limit * distance) / (limit + Math.abs(distance));
+};
+
+/**
+ * Pan gesture that dismisses a notification when swiped far or fast enough
+ * @param direction - Direction in which the notification is dismissed
+ * @param onDismiss - Called on the JS thread with the release velocity
+ * @returns The gesture to attach and the drag offsets to apply as transforms
+ */
+export function useSwipeToDismiss(
+  direction: SwipeDirection,
+  onDismiss: (velocity: number) => void
+) {
+  const dragX = useSharedValue(0);
+  const dragY = useSharedValue(0);
+
+  // Always call the latest callback without rebuilding the gesture
+  const onDismissRef = useRef(onDismiss);
+  onDismissRef.current = onDismiss;
+  const dismiss = useCallback(
+    (velocity: number) => onDismissRef.current(velocity),
+    []
+  );
+
+  // Built once, so re-renders do not re-attach the gesture
+  const gesture = useMemo(() => {
+    const pan = Gesture.Pan()
+      .onUpdate((event) => {
+        if (direction === 'up') {
+          dragY.value =
+            event.translationY < 0
+              ? event.translationY
+              : rubberBand(event.translationY, RUBBER_BAND_LIMIT);
+        } else {
+          dragX.value = event.translationX;
+          dragY.value = rubberBand(event.translationY, RUBBER_BAND_LIMIT);
+        }
+      })
+      .onEnd((event) => {
+        const distance =
+          direction === 'up'
+            ? -event.translationY
+            : Math.abs(event.translationX);
+        const velocity =
+          direction === 'up' ? -event.velocityY : Math.abs(event.velocityX);
+
+        if (distance > DISMISS_DISTANCE || velocity > DISMISS_VELOCITY) {
+          runOnJS(dismiss)(
+            direction === 'up' ? event.velocityY : event.velocityX
+          );
+          return;
+        }
+
+        // Not far enough, snap back into place
+        dragX.value = withSpring(0);
+        dragY.value = withSpring(0);
+      });
+
+    if (direction === 'up') {
+      pan.activeOffsetY([-ACTIVATION_OFFSET, ACTIVATION_OFFSET]);
+    } else {
+      pan.activeOffsetX([-ACTIVATION_OFFSET, ACTIVATION_OFFSET]);
+    }
+
+    return pan;
+  }, [direction, dragX, dragY, dismiss]);
+
+  return { gesture, dragX, dragY };
+}
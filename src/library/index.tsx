@@ -1,35 +1,189 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useMemo,
+} from 'react';
+import { StyleSheet, useColorScheme, useWindowDimensions } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import DynamicIslandNotification from './DynamicIslandNotifications';
 import NotchNotification from './NotchNotification';
+import PunchHoleNotification from './PunchHoleNotification';
 import ToastNotification from './ToastNotification';
 import {
-  detectDeviceType,
+  detectCurrentDeviceType,
+  detectDeviceTypeFromInsets,
   DeviceType,
+  getCurrentModelId,
+  getDisplayCutout,
   hasDynamicIsland,
+  isLargeScreen,
+  registerDevice,
+  setSimulatorModel,
+  unregisterDevice,
+} from './config/devices';
+import type {
+  DeviceAnimationConfig,
+  DeviceDetection,
+  DeviceRegistration,
+  DisplayCutout,
 } from './config/devices';
-import * as Device from 'expo-device';
 import { useStatusBarStore } from './store/useStatusBarStore';
+import { createNotificationId } from './utils/notificationId';
+import { clampProgress, createProgressHandle } from './utils/progressHandle';
+import { settleWithPromise } from './utils/promiseNotification';
+import {
+  addNotification,
+  clearQueuedNotifications,
+  patchNotification,
+  releaseNotification,
+  removeQueuedNotification,
+} from './utils/queue';
+import type { NotificationId } from './utils/notificationId';
+import type {
+  BuiltInNotificationStyle,
+  BuiltInNotificationType,
+  CustomNotificationRenderers,
+  CustomNotificationTypes,
+  DismissReason,
+  HapticKind,
+  NotificationAction,
+  NotificationProps,
+  NotificationStyleName,
+  NotificationType,
+  ReduceMotionSetting,
+  ToastPosition,
+} from './types';
+import {
+  DynamicToast,
+  attachNotificationRef,
+  detachNotificationRef,
+} from './DynamicToast';
+import {
+  NotificationThemeContext,
+  defaultTheme,
+  lightTheme,
+  mergeTheme,
+  useNotificationTheme,
+} from './config/theme';
+import type {
+  NotificationTheme,
+  NotificationThemeOverrides,
+} from './config/theme';
+import {
+  NotificationTypesContext,
+  defaultNotificationTypes,
+  getNotificationTypeColors,
+  mergeNotificationTypes,
+} from './config/notificationTypes';
+import type {
+  NotificationTypeConfig,
+  NotificationTypeRegistry,
+} from './config/notificationTypes';
+import { NotificationIconsContext, defaultIcons } from './config/icons';
+import type {
+  NotificationIconComponent,
+  NotificationIconRegistry,
+} from './config/icons';
+import type { IconProps } from './components/icons/types';
+import { animationPresets } from './config/animations';
+import { getRegisteredRenderers, registerRenderer } from './config/renderers';
+import type {
+  NotificationRenderer,
+  NotificationRendererRegistry,
+} from './config/renderers';
+import type {
+  AnimationOption,
+  AnimationPresetName,
+  NotificationAnimation,
+} from './config/animations';
+import {
+  ReduceMotionContext,
+  useReduceMotion,
+  useReduceMotionSetting,
+} from './hooks/useReduceMotion';
 
 // Export the individual notification components
-export { DynamicIslandNotification, NotchNotification, ToastNotification };
+export {
+  DynamicIslandNotification,
+  NotchNotification,
+  PunchHoleNotification,
+  ToastNotification,
+};
 
 // Export the hasDynamicIsland function for compatibility
 export { hasDynamicIsland };
 
+// Export the device registry so apps can support new models
+export {
+  DeviceType,
+  detectDeviceTypeFromInsets,
+  getCurrentModelId,
+  getDisplayCutout,
+  registerDevice,
+  setSimulatorModel,
+  unregisterDevice,
+};
+export type {
+  DeviceAnimationConfig,
+  DeviceDetection,
+  DeviceRegistration,
+  DisplayCutout,
+};
+
 // Export StatusBar store for advanced usage
 export { useStatusBarStore };
 
-/**
- * Type of notification to display
- * @typedef {'success' | 'failed' | 'default'} NotificationType
- */
-type NotificationType = 'success' | 'failed' | 'default';
+// Export the imperative API for usage outside React components
+export { DynamicToast };
+
+export type { NotificationId, DismissReason, NotificationAction };
+
+// Export the theme for custom content that should match the notifications
+export { defaultTheme, lightTheme, useNotificationTheme };
+export type { NotificationTheme, NotificationThemeOverrides };
+
+// Export the type registry so apps can add their own notification types
+export { defaultNotificationTypes };
+export type {
+  BuiltInNotificationType,
+  CustomNotificationTypes,
+  HapticKind,
+  NotificationType,
+  NotificationTypeConfig,
+  NotificationTypeRegistry,
+  ReduceMotionSetting,
+  ToastPosition,
+};
+
+// Export the icon registry so apps can register icons by name
+export { defaultIcons };
+export type { IconProps, NotificationIconComponent, NotificationIconRegistry };
+
+// Export the resolved Reduce Motion state for custom content animations
+export { useReduceMotion };
+
+// Export the animation presets so apps can derive their own
+export { animationPresets };
+export type { AnimationOption, AnimationPresetName, NotificationAnimation };
+
+// Export the renderer registry so apps can add or replace notification styles
+export { registerRenderer };
+export type {
+  BuiltInNotificationStyle,
+  CustomNotificationRenderers,
+  NotificationProps,
+  NotificationRenderer,
+  NotificationRendererRegistry,
+  NotificationStyleName,
+};
 
 /**
  * Options for customizing notifications
  * @interface NotificationOptions
  */
-interface NotificationOptions {
+export interface NotificationOptions {
   /** Custom text color */
   textColor?: string;
   /** Whether to show shadow effect */
@@ -38,35 +192,177 @@ interface NotificationOptions {
   shadowColor?: string;
   /** Custom border color */
   borderColor?: string;
+  /** Custom background color */
+  backgroundColor?: string;
   /** Custom auto-hide delay in milliseconds */
   autoHideDelay?: number;
   /** Disable auto-hiding the notification */
   disableAutoHide?: boolean;
   /** Enable haptic feedback */
   enableHaptics?: boolean;
-  /** Force a specific notification style */
-  forceStyle?: 'dynamicIsland' | 'notch' | 'toast';
+  /** Show a bar with the time left before auto-hiding */
+  showCountdown?: boolean;
+  /** Buttons displayed inside the notification, pressing one dismisses it */
+  actions?: NotificationAction[];
+  /**
+   * Icon displayed before the message, a React node or a registered icon
+   * name. Defaults to the icon of the type, null hides it.
+   */
+  icon?: React.ReactNode;
+  /**
+   * Accessory displayed before the icon, a React node or a registered icon
+   * name. On the Dynamic Island with a trailing accessory, left of the camera.
+   */
+  leading?: React.ReactNode;
+  /**
+   * Accessory displayed after the message, a React node or a registered icon
+   * name. On the Dynamic Island, right of the camera with the middle clear.
+   */
+  trailing?: React.ReactNode;
+  /** Force a specific notification style or registered renderer */
+  forceStyle?: NotificationStyleName;
+  /** Where the toast appears on screen, only applies to the toast style */
+  position?: ToastPosition;
+  /** Animation preset or springs and durations, replaces the provider one */
+  animation?: AnimationOption;
+  /** Completed part of a task from 0 to 1, shows a progress bar */
+  progress?: number;
+  /** Content of the compact pill, Dynamic Island style only */
+  compact?: React.ReactNode;
+  /**
+   * Content of the expanded card, Dynamic Island style only. A tap or
+   * long-press expands the notification and a tap collapses it.
+   */
+  expanded?: React.ReactNode;
+  /** Called once when the notification starts appearing */
+  onShow?: () => void;
+  /** Called when the notification is pressed */
+  onPress?: () => void;
+  /**
+   * Called once the notification is gone, with the reason. Also called for
+   * queued notifications removed before being shown.
+   */
+  onDismiss?: (reason: DismissReason) => void;
+  /** Called when the auto-hide delay elapses, before the hide animation */
+  onAutoHide?: () => void;
+  /**
+   * Identifier to use for the notification. Showing a notification with the
+   * id of a displayed or queued one updates it in place.
+   */
+  id?: NotificationId;
+}
+
+/**
+ * Changes applied to a live notification with update()
+ * @interface NotificationUpdate
+ */
+export type NotificationUpdate = {
+  /** New text message */
+  message?: string;
+  /** New notification type */
+  type?: NotificationType;
+  /** New custom content, replacing the message */
+  children?: React.ReactNode;
+  /** Options merged into the current ones */
+  options?: NotificationOptions;
+};
+
+/**
+ * Messages displayed while a promise is pending and once it settles
+ * @interface PromiseMessages
+ */
+export type PromiseMessages<T> = {
+  /** Message shown while the promise is pending */
+  loading: string;
+  /** Message shown when the promise resolves, or a function of its value */
+  success: string | ((value: T) => string);
+  /** Message shown when the promise rejects, or a function of the error */
+  error: string | ((error: unknown) => string);
+};
+
+/**
+ * Options of a progress notification
+ * @interface ProgressOptions
+ * @extends NotificationOptions
+ */
+export interface ProgressOptions extends NotificationOptions {
+  /** Initial progress from 0 to 1, default 0 */
+  value?: number;
 }
 
+/**
+ * Controls a live progress notification returned by progress()
+ * @interface ProgressHandle
+ */
+export type ProgressHandle = {
+  /** Id of the notification, usable with update() and dismiss() */
+  id: NotificationId;
+  /** Move the progress bar, from 0 to 1 */
+  setProgress: (value: number) => void;
+  /** Replace the message */
+  setMessage: (message: string) => void;
+  /** Morph into a success notification, optionally with a new message */
+  complete: (message?: string) => void;
+  /** Morph into a failed notification, optionally with a new message */
+  fail: (message?: string) => void;
+};
+
+/**
+ * Shortcut methods of the registered types, e.g. notif().warning(...)
+ * success and failed have their own methods, loading and default have none
+ */
+export type NotificationTypeShortcuts = {
+  [K in Exclude<
+    NotificationType,
+    'success' | 'failed' | 'loading' | 'default'
+  >]: (message: string, options?: NotificationOptions) => NotificationId;
+};
+
 // Notification Context used by the hook
 /**
  * Notification context type used by the hook
  * @interface NotificationContextType
  */
-type NotificationContextType = {
-  /** Display a success notification */
-  success: (message: string, options?: NotificationOptions) => void;
-  /** Display a failure/error notification */
-  failed: (message: string, options?: NotificationOptions) => void;
-  /** Display a toast notification */
-  toaster: (message: string, options?: NotificationOptions) => void;
-  /** Display a notification with custom content */
+export type NotificationContextType = NotificationTypeShortcuts & {
+  /** Display a success notification, returns its id */
+  success: (message: string, options?: NotificationOptions) => NotificationId;
+  /** Display a failure/error notification, returns its id */
+  failed: (message: string, options?: NotificationOptions) => NotificationId;
+  /** Display a toast notification, returns its id */
+  toaster: (message: string, options?: NotificationOptions) => NotificationId;
+  /** Display a notification of any registered type, returns its id */
+  show: (
+    message: string,
+    type: NotificationType,
+    options?: NotificationOptions
+  ) => NotificationId;
+  /** Display a notification with custom content, returns its id */
   showCustom: (
     children: React.ReactNode,
     options?: NotificationOptions
-  ) => void;
-  /** Hide any active notification */
+  ) => NotificationId;
+  /**
+   * Display a loading notification that morphs into a success or failed
+   * notification once the promise settles. Resolves with the promise result.
+   */
+  promise: <T>(
+    promise: Promise<T>,
+    messages: PromiseMessages<T>,
+    options?: NotificationOptions
+  ) => Promise<T>;
+  /**
+   * Display a notification with a progress bar that stays on screen until
+   * complete() or fail() is called on the returned handle
+   */
+  progress: (message: string, options?: ProgressOptions) => ProgressHandle;
+  /** Change the message, type or content of a live notification in place */
+  update: (id: NotificationId, changes: NotificationUpdate) => void;
+  /** Close a specific notification, or remove it from the queue */
+  dismiss: (id: NotificationId) => void;
+  /** Hide any active notification, the next queued one is shown afterwards */
   hide: () => void;
+  /** Remove every notification waiting in the queue */
+  clearQueue: () => void;
   /** Get a reference to the close function for manual control */
   getCloseRef: () => (() => void) | null;
 };
@@ -95,6 +391,23 @@ export const useStatusBarVisibility = () => {
   return { hidden };
 };
 
+/**
+ * A notification waiting in the provider queue (or currently displayed)
+ * @interface QueuedNotification
+ */
+export type QueuedNotification = {
+  /** Unique identifier of the notification */
+  id: NotificationId;
+  /** Text message to display */
+  message: string;
+  /** Type of notification */
+  type: NotificationType;
+  /** Custom content to display instead of message */
+  customContent: React.ReactNode | null;
+  /** Options the notification was shown with */
+  options: NotificationOptions;
+};
+
 /**
  * Provider props for the NotificationProvider component
  * @interface NotificationProviderProps
@@ -102,143 +415,469 @@ export const useStatusBarVisibility = () => {
 type NotificationProviderProps = {
   /** The child components to render */
   children: React.ReactNode;
-  /** Force a specific notification style, otherwise auto-detected */
-  forceStyle?: 'dynamicIsland' | 'notch' | 'toast';
+  /**
+   * Force a specific notification style or registered renderer, otherwise
+   * auto-detected
+   */
+  forceStyle?: NotificationStyleName;
+  /**
+   * How the style is auto-detected: 'modelId' uses the list of known models,
+   * 'insets' the safe-area insets of the screen, 'hybrid' the list of known
+   * models then the insets for unknown ones. Default 'hybrid'
+   */
+  detection?: DeviceDetection;
+  /**
+   * Maximum number of notifications waiting behind the visible one.
+   * When the queue is full, the oldest pending notification is dropped.
+   */
+  maxQueueSize?: number;
+  /** Called with the pending notifications whenever the queue changes */
+  onQueueChange?: (queue: QueuedNotification[]) => void;
+  /**
+   * Stack several toasts on screen at once instead of showing them one by one.
+   * Only applies to the toast style, the other styles stay sequential.
+   */
+  stack?: boolean;
+  /** Maximum number of stacked toasts visible at once, default 3 */
+  visibleToasts?: number;
+  /** Design tokens merged over the default theme */
+  theme?: NotificationThemeOverrides;
+  /**
+   * Notification types to add, or built-in ones to override, keyed by name.
+   * Each type has its own colors, icon, haptic feedback and duration.
+   */
+  types?: NotificationTypeRegistry;
+  /** Icons usable by name in the icon, leading and trailing options */
+  icons?: NotificationIconRegistry;
+  /** Default position of toasts, default top */
+  position?: ToastPosition;
+  /**
+   * Replace motion with cross-fades: 'system' follows the Reduce Motion
+   * accessibility setting, 'always' and 'never' override it
+   */
+  reduceMotion?: ReduceMotionSetting;
+  /**
+   * Palette of the toasts: 'auto' follows the system appearance, the island
+   * and notch always stay black
+   */
+  colorScheme?: 'auto' | 'light' | 'dark';
+  /**
+   * Default animation: a preset ('snappy', 'bouncy', 'gentle',
+   * 'native-like') or springs, durations and stagger to override
+   */
+  animation?: AnimationOption;
+  /**
+   * Components rendering notification styles, keyed by style name. Built-in
+   * names replace the built-in styles, other names can be used in forceStyle.
+   */
+  renderers?: NotificationRendererRegistry;
 };
 
+// Spacing between stacked toasts once the stack is expanded
+const STACK_GAP = 8;
+const DEFAULT_VISIBLE_TOASTS = 3;
+
+/**
+ * Map a notification style name to the matching device type
+ */
+const styleToDeviceType = (style: NotificationStyleName): DeviceType => {
+  switch (style) {
+    case 'dynamicIsland':
+      return DeviceType.DYNAMIC_ISLAND;
+    case 'notch':
+      return DeviceType.NOTCH;
+    case 'punchHole':
+      return DeviceType.PUNCH_HOLE;
+    default:
+      return DeviceType.STANDARD;
+  }
+};
+
+/**
+ * Map a device type to the name of its built-in style
+ */
+const deviceTypeToStyle = (type: DeviceType): BuiltInNotificationStyle => {
+  switch (type) {
+    case DeviceType.DYNAMIC_ISLAND:
+      return 'dynamicIsland';
+    case DeviceType.NOTCH:
+      return 'notch';
+    case DeviceType.PUNCH_HOLE:
+      return 'punchHole';
+    default:
+      return 'toast';
+  }
+};
+
+const BUILT_IN_STYLES: string[] = [
+  'dynamicIsland',
+  'notch',
+  'punchHole',
+  'toast',
+];
+
 /**
  * Provider component that enables notification functionality
  */
 export const NotificationProvider = ({
   children,
   forceStyle,
+  detection = 'hybrid',
+  maxQueueSize,
+  onQueueChange,
+  stack = false,
+  visibleToasts = DEFAULT_VISIBLE_TOASTS,
+  theme,
+  types,
+  icons,
+  position = 'top',
+  reduceMotion = 'system',
+  colorScheme = 'auto',
+  animation,
+  renderers,
 }: NotificationProviderProps) => {
-  const [message, setMessage] = useState('');
-  const [visible, setVisible] = useState(false);
-  const [type, setType] = useState<NotificationType>('default');
-  const [deviceType, setDeviceType] = useState<DeviceType>(DeviceType.STANDARD);
-  const [customContent, setCustomContent] = useState<React.ReactNode | null>(
-    null
+  // Notifications on screen, oldest first
+  const [active, setActive] = useState<QueuedNotification[]>([]);
+  // Detection is synchronous, so the first render already knows the style
+  const [deviceType, setDeviceType] = useState<DeviceType>(() =>
+    forceStyle
+      ? styleToDeviceType(forceStyle)
+      : detectCurrentDeviceType(detection)
   );
-  const [options, setOptions] = useState<NotificationOptions>({});
+  const [stackExpanded, setStackExpanded] = useState(false);
+  const [toastHeights, setToastHeights] = useState<
+    Record<NotificationId, number>
+  >({});
+
+  // Mirrors of the visible notifications and pending queue, readable synchronously
+  const activeRef = React.useRef<QueuedNotification[]>([]);
+  const queueRef = React.useRef<QueuedNotification[]>([]);
+
+  // Close functions exposed by each visible notification
+  const closeFnsRef = React.useRef(new Map<NotificationId, () => void>());
+
+  // Style of each visible notification, fixed when it is presented
+  const presentedTypesRef = React.useRef(new Map<NotificationId, DeviceType>());
 
-  // Reference to the close function for manual control
-  const closeRef = React.useRef<(() => void) | null>(null);
+  // Resolved here so notifications know it before they mount
+  const motionReduced = useReduceMotionSetting(reduceMotion);
 
   // Access the StatusBar store to control visibility
   const setStatusBarHidden = useStatusBarStore((state) => state.setHidden);
 
-  // Hide StatusBar when notifications are visible for Notch and Dynamic Island types
+  // Layout follows the window, so rotation and split-screen resizes apply live
+  const { width: windowWidth, height: windowHeight } = useWindowDimensions();
+  const landscape = windowWidth > windowHeight;
+  const largeScreen = isLargeScreen(windowWidth, windowHeight);
+
+  // Rotating moves the cutout, so visible notifications drawn around it
+  // lose their pinned style and remount as toasts
+  const landscapeRef = React.useRef(landscape);
+  if (landscapeRef.current !== landscape) {
+    landscapeRef.current = landscape;
+    presentedTypesRef.current.forEach((type, id) => {
+      if (type !== DeviceType.STANDARD) presentedTypesRef.current.delete(id);
+    });
+  }
+
+  // Style used by a notification (per-call forceStyle wins). The cutout is
+  // on the side in landscape, so every style falls back to toasts there.
+  // Visible notifications keep their style when the detection or the
+  // provider forceStyle changes.
+  const resolveDeviceType = (notification: QueuedNotification) => {
+    const presented = presentedTypesRef.current.get(notification.id);
+    if (presented !== undefined) return presented;
+    if (landscape) return DeviceType.STANDARD;
+
+    return notification.options.forceStyle
+      ? styleToDeviceType(notification.options.forceStyle)
+      : deviceType;
+  };
+
+  // Renderer registered under a style name, the ones passed to the provider
+  // win. Looked up on every render, so late registrations are picked up.
+  const findRenderer = (name: string): NotificationRenderer | undefined =>
+    renderers?.[name] ?? getRegisteredRenderers()[name];
+
+  // Renderer of a notification: a forced custom style, or the renderer
+  // replacing its built-in style. Undefined renders the built-in component.
+  const resolveRenderer = (
+    notification: QueuedNotification
+  ): NotificationRenderer | undefined => {
+    const forced = notification.options.forceStyle ?? forceStyle;
+    if (forced && !BUILT_IN_STYLES.includes(forced)) {
+      const renderer = findRenderer(forced);
+      if (__DEV__ && !renderer) {
+        console.warn(`No notification renderer registered as "${forced}"`);
+      }
+      return renderer;
+    }
+
+    return findRenderer(deviceTypeToStyle(resolveDeviceType(notification)));
+  };
+
+  // Toasts are stacked only in stack mode, every other style is shown alone
+  const isStackable = (notification: QueuedNotification) =>
+    stack && resolveDeviceType(notification) === DeviceType.STANDARD;
+
+  // Whether a notification can be shown next to the ones on screen
+  const fits = (
+    notification: QueuedNotification,
+    shown: QueuedNotification[]
+  ) =>
+    shown.length === 0 ||
+    (isStackable(notification) &&
+      shown.every(isStackable) &&
+      shown.length < Math.max(visibleToasts, 1));
+
+  // Hide StatusBar when notifications are visible for Notch, Dynamic Island
+  // and punch-hole types
+  const hidesStatusBar = active.some(
+    (notification) => resolveDeviceType(notification) !== DeviceType.STANDARD
+  );
   useEffect(() => {
-    if (
-      visible &&
-      (deviceType === DeviceType.DYNAMIC_ISLAND ||
-        deviceType === DeviceType.NOTCH)
-    ) {
-      setStatusBarHidden(true);
-    } else {
-      setStatusBarHidden(false);
+    setStatusBarHidden(hidesStatusBar);
+  }, [hidesStatusBar, setStatusBarHidden]);
+
+  // Collapse the stack once there is nothing left to expand
+  useEffect(() => {
+    if (active.length <= 1) {
+      setStackExpanded(false);
     }
-  }, [visible, deviceType, setStatusBarHidden]);
+  }, [active.length]);
 
   // Detect device type on mount
   useEffect(() => {
     const detectDevice = async () => {
-      const deviceId = await Device.modelId;
+      const deviceId = getCurrentModelId();
       console.log('Device detected for notification style:', deviceId);
 
       // Use forced style or detect automatically
       if (forceStyle) {
-        switch (forceStyle) {
-          case 'dynamicIsland':
-            setDeviceType(DeviceType.DYNAMIC_ISLAND);
-            break;
-          case 'notch':
-            setDeviceType(DeviceType.NOTCH);
-            break;
-          default:
-            setDeviceType(DeviceType.STANDARD);
-        }
+        setDeviceType(styleToDeviceType(forceStyle));
       } else {
-        setDeviceType(detectDeviceType(deviceId));
+        setDeviceType(detectCurrentDeviceType(detection));
       }
     };
 
     detectDevice();
-  }, [forceStyle]);
+  }, [forceStyle, detection]);
+
+  const setQueue = (queue: QueuedNotification[]) => {
+    queueRef.current = queue;
+    onQueueChange?.(queue);
+  };
+
+  const present = (notifications: QueuedNotification[]) => {
+    notifications.forEach((notification) => {
+      if (!presentedTypesRef.current.has(notification.id)) {
+        presentedTypesRef.current.set(
+          notification.id,
+          resolveDeviceType(notification)
+        );
+      }
+    });
+    activeRef.current = notifications;
+    setActive(notifications);
+  };
+
+  // Display the notification right away, or wait for a free slot. Queued
+  // notifications go first, so the order is kept.
+  const enqueue = (notification: QueuedNotification) => {
+    const { state, dropped } = addNotification(
+      { active: activeRef.current, queue: queueRef.current },
+      notification,
+      fits,
+      maxQueueSize
+    );
+    if (state.active !== activeRef.current) {
+      present(state.active);
+      return;
+    }
+
+    setQueue(state.queue);
+    dropped.forEach((replaced) => replaced.options.onDismiss?.('replaced'));
+  };
+
+  // Called once the hide animation of a notification has finished
+  const handleHide = (
+    id: NotificationId,
+    reason: DismissReason = 'programmatic'
+  ) => {
+    const released = releaseNotification(
+      { active: activeRef.current, queue: queueRef.current },
+      id,
+      fits
+    );
+    // Ignore late callbacks from a notification that is no longer displayed
+    if (!released) return;
+
+    closeFnsRef.current.delete(id);
+    presentedTypesRef.current.delete(id);
+    setToastHeights(({ [id]: _removed, ...heights }) => heights);
+
+    const { state, hidden } = released;
+    if (state.queue.length !== queueRef.current.length) {
+      setQueue(state.queue);
+    }
+    present(state.active);
+    hidden.options.onDismiss?.(reason);
+  };
+
+  // Patch a notification in place, whether it is displayed or still queued.
+  // Returns false when no live notification has this id.
+  const updateNotification = (
+    id: NotificationId,
+    patch: Partial<Omit<QueuedNotification, 'id'>>
+  ) => {
+    const state = patchNotification(
+      { active: activeRef.current, queue: queueRef.current },
+      id,
+      patch
+    );
+    if (!state) return false;
+
+    if (state.active !== activeRef.current) {
+      present(state.active);
+    } else {
+      setQueue(state.queue);
+    }
+    return true;
+  };
+
+  // Queue a new notification, or update the live one that has the same id
+  const showNotification = (
+    notification: Omit<QueuedNotification, 'id'>
+  ): NotificationId => {
+    const id = notification.options.id || createNotificationId();
+    if (!updateNotification(id, notification)) {
+      enqueue({ id, ...notification });
+    }
+    return id;
+  };
 
   const show = (
     text: string,
     notifType: NotificationType = 'default',
     notifOptions?: NotificationOptions
-  ) => {
-    setCustomContent(null);
-    setMessage(text);
-    setType(notifType);
-    setOptions(notifOptions || {});
-
-    // Update device type if forceStyle is provided in options
-    if (notifOptions?.forceStyle) {
-      switch (notifOptions.forceStyle) {
-        case 'dynamicIsland':
-          setDeviceType(DeviceType.DYNAMIC_ISLAND);
-          break;
-        case 'notch':
-          setDeviceType(DeviceType.NOTCH);
-          break;
-        case 'toast':
-          setDeviceType(DeviceType.STANDARD);
-          break;
+  ) =>
+    showNotification({
+      message: text,
+      type: notifType,
+      customContent: null,
+      options: notifOptions || {},
+    });
+
+  const showCustom = (
+    content: React.ReactNode,
+    notifOptions?: NotificationOptions
+  ) =>
+    showNotification({
+      message: '',
+      type: 'default',
+      customContent: content,
+      options: notifOptions || {},
+    });
+
+  const promise = <T,>(
+    pending: Promise<T>,
+    messages: PromiseMessages<T>,
+    notifOptions?: NotificationOptions
+  ): Promise<T> => {
+    const id = show(messages.loading, 'loading', notifOptions);
+    settleWithPromise(id, pending, messages, update);
+
+    return pending;
+  };
+
+  const progress = (
+    msg: string,
+    { value = 0, ...notifOptions }: ProgressOptions = {}
+  ): ProgressHandle => {
+    const id = show(msg, 'loading', {
+      ...notifOptions,
+      progress: clampProgress(value),
+    });
+    return createProgressHandle(id, update);
+  };
+
+  const update = (id: NotificationId, changes: NotificationUpdate) => {
+    const notification = [...activeRef.current, ...queueRef.current].find(
+      (live) => live.id === id
+    );
+    if (!notification) return;
+
+    const patch: Partial<Omit<QueuedNotification, 'id'>> = {};
+    if (changes.message !== undefined) {
+      patch.message = changes.message;
+      patch.customContent = null;
+    }
+    if (changes.type !== undefined) patch.type = changes.type;
+    if (changes.children !== undefined) {
+      patch.customContent = changes.children;
+    }
+    if (changes.options) {
+      patch.options = { ...notification.options, ...changes.options, id };
+      // A new forced style applies right away
+      if (changes.options.forceStyle !== undefined) {
+        presentedTypesRef.current.delete(id);
       }
     }
 
-    setVisible(true);
+    updateNotification(id, patch);
   };
 
-  const showCustom = (
-    content: React.ReactNode,
-    notifOptions?: NotificationOptions
-  ) => {
-    setMessage('');
-    setCustomContent(content);
-    setType('default');
-    setOptions(notifOptions || {});
-
-    // Update device type if forceStyle is provided in options
-    if (notifOptions?.forceStyle) {
-      switch (notifOptions.forceStyle) {
-        case 'dynamicIsland':
-          setDeviceType(DeviceType.DYNAMIC_ISLAND);
-          break;
-        case 'notch':
-          setDeviceType(DeviceType.NOTCH);
-          break;
-        case 'toast':
-          setDeviceType(DeviceType.STANDARD);
-          break;
+  const dismiss = (id: NotificationId) => {
+    if (activeRef.current.some((notification) => notification.id === id)) {
+      // Use the close function if available to play the hide animation
+      const close = closeFnsRef.current.get(id);
+      if (close) {
+        close();
+      } else {
+        handleHide(id, 'programmatic');
       }
+      return;
     }
 
-    setVisible(true);
+    const queued = removeQueuedNotification(
+      { active: activeRef.current, queue: queueRef.current },
+      id
+    );
+    if (queued) {
+      setQueue(queued.state.queue);
+      queued.removed.options.onDismiss?.('programmatic');
+    }
   };
 
   const hide = () => {
-    // Use the close reference if available, otherwise just hide
-    if (closeRef.current) {
-      closeRef.current();
-    } else {
-      setVisible(false);
-    }
+    activeRef.current.forEach((notification) => dismiss(notification.id));
   };
 
-  // Function to store the close function reference
-  const setClose = (closeFn: () => void) => {
-    closeRef.current = closeFn;
+  // Drop every pending notification, the visible ones stay on screen
+  const clearQueue = () => {
+    if (queueRef.current.length > 0) {
+      const { state, dropped } = clearQueuedNotifications({
+        active: activeRef.current,
+        queue: queueRef.current,
+      });
+      setQueue(state.queue);
+      dropped.forEach((notification) =>
+        notification.options.onDismiss?.('programmatic')
+      );
+    }
   };
 
-  // Function to get the close reference for manual control
+  // Function to get the close reference of the latest notification
   const getCloseRef = () => {
-    return closeRef.current;
+    const latest = activeRef.current[activeRef.current.length - 1];
+    return (latest && closeFnsRef.current.get(latest.id)) || null;
+  };
+
+  // Stacked toasts report their height so the expanded stack can lay them out
+  const setToastHeight = (id: NotificationId, height: number) => {
+    setToastHeights((heights) =>
+      heights[id] === height ? heights : { ...heights, [id]: height }
+    );
   };
 
   const success = (msg: string, notifOptions?: NotificationOptions) =>
@@ -248,41 +887,205 @@ export const NotificationProvider = ({
   const toaster = (msg: string, notifOptions?: NotificationOptions) =>
     show(msg, 'default', notifOptions);
 
-  // Render the appropriate notification component based on device type
-  const renderNotification = () => {
-    if (!visible) return null;
+  // Toast position (per-call position wins)
+  const resolvePosition = (notification: QueuedNotification) =>
+    notification.options.position || position;
+
+  // Stacked toasts, newest first, used for depth and expanded offsets
+  const stackedToasts = active.filter(isStackable).reverse();
 
+  // Render the appropriate notification component based on device type
+  const renderNotification = (notification: QueuedNotification) => {
+    const { id, options } = notification;
     const commonProps = {
-      message,
-      onHide: () => setVisible(false),
-      type,
+      message: notification.message,
+      onHide: (reason?: DismissReason) => handleHide(id, reason),
+      onShow: options.onShow,
+      onPress: options.onPress,
+      onAutoHide: options.onAutoHide,
+      type: notification.type,
       textColor: options.textColor,
       showShadow: options.showShadow,
       shadowColor: options.shadowColor,
       borderColor: options.borderColor,
+      backgroundColor: options.backgroundColor,
       autoHideDelay: options.autoHideDelay,
-      setClose,
+      setClose: (closeFn: () => void) => {
+        closeFnsRef.current.set(id, closeFn);
+      },
       disableAutoHide: options.disableAutoHide,
       enableHaptics: options.enableHaptics,
-      children: customContent,
+      showCountdown: options.showCountdown,
+      actions: options.actions,
+      icon: options.icon,
+      leading: options.leading,
+      trailing: options.trailing,
+      progress: options.progress,
+      animation: options.animation ?? animation,
+      children: notification.customContent,
     };
 
-    switch (deviceType) {
+    // Keyed by id so every queued notification mounts with a fresh animation
+    const Renderer = resolveRenderer(notification);
+    if (Renderer) {
+      return (
+        <Renderer
+          key={id}
+          {...commonProps}
+          position={resolvePosition(notification)}
+          compact={options.compact}
+          expanded={options.expanded}
+        />
+      );
+    }
+
+    switch (resolveDeviceType(notification)) {
       case DeviceType.DYNAMIC_ISLAND:
-        return <DynamicIslandNotification {...commonProps} />;
+        return (
+          <DynamicIslandNotification
+            key={id}
+            {...commonProps}
+            compact={options.compact}
+            expanded={options.expanded}
+          />
+        );
       case DeviceType.NOTCH:
-        return <NotchNotification {...commonProps} />;
-      default:
-        return <ToastNotification {...commonProps} />;
+        return <NotchNotification key={id} {...commonProps} />;
+      case DeviceType.PUNCH_HOLE:
+        return <PunchHoleNotification key={id} {...commonProps} />;
+      default: {
+        // Toasts only stack with the toasts shown at the same position
+        const toastPosition = resolvePosition(notification);
+        const stackMates = stackedToasts.filter(
+          (toast) => resolvePosition(toast) === toastPosition
+        );
+        const stackIndex = stackMates.indexOf(notification);
+        if (stackIndex === -1) {
+          return (
+            <ToastNotification
+              key={id}
+              {...commonProps}
+              position={toastPosition}
+              card={largeScreen}
+            />
+          );
+        }
+
+        // Offset of this toast once expanded: heights of the newer ones
+        const stackOffset = stackMates
+          .slice(0, stackIndex)
+          .reduce(
+            (offset, newer) =>
+              offset + (toastHeights[newer.id] || 0) + STACK_GAP,
+            0
+          );
+
+        return (
+          <ToastNotification
+            key={id}
+            {...commonProps}
+            position={toastPosition}
+            card={largeScreen}
+            stackIndex={stackIndex}
+            stackExpanded={stackExpanded}
+            stackOffset={stackOffset}
+            onStackPress={
+              stackMates.length > 1 ? () => setStackExpanded(true) : undefined
+            }
+            onHeightChange={(height) => setToastHeight(id, height)}
+          />
+        );
+      }
     }
   };
 
+  const notificationTypes = useMemo(
+    () => mergeNotificationTypes(defaultNotificationTypes, types),
+    [types]
+  );
+
+  const baseApi = {
+    success,
+    failed,
+    toaster,
+    show,
+    showCustom,
+    promise,
+    progress,
+    update,
+    dismiss,
+    hide,
+    clearQueue,
+    getCloseRef,
+  };
+
+  // One shortcut per registered type, without shadowing the methods above
+  const typeShortcuts = Object.fromEntries(
+    Object.keys(notificationTypes)
+      .filter(
+        (name) => !(name in baseApi) && name !== 'loading' && name !== 'default'
+      )
+      .map((name) => [
+        name,
+        (msg: string, notifOptions?: NotificationOptions) =>
+          show(msg, name as NotificationType, notifOptions),
+      ])
+  ) as NotificationTypeShortcuts;
+
+  const api: NotificationContextType = { ...typeShortcuts, ...baseApi };
+
+  // Route the imperative DynamicToast API to this provider
+  const apiRef = React.useRef(api);
+  apiRef.current = api;
+  useEffect(() => {
+    const ref = apiRef;
+    attachNotificationRef(ref);
+    return () => detachNotificationRef(ref);
+  }, []);
+
+  const notificationIcons = useMemo(
+    () => (icons ? { ...defaultIcons, ...icons } : defaultIcons),
+    [icons]
+  );
+
+  // Light toasts when the app (or the override) uses the light scheme
+  const systemColorScheme = useColorScheme();
+  const light =
+    colorScheme === 'light' ||
+    (colorScheme === 'auto' && systemColorScheme === 'light');
+
+  // Colors of registered types first, then the light palette, explicit
+  // theme tokens win
+  const mergedTheme = useMemo(() => {
+    let base = mergeTheme(defaultTheme, {
+      colors: getNotificationTypeColors(notificationTypes),
+    });
+    if (light) {
+      base = mergeTheme(base, lightTheme);
+    }
+    return mergeTheme(base, theme);
+  }, [notificationTypes, light, theme]);
+
   return (
-    <NotificationContext.Provider
-      value={{ success, failed, toaster, showCustom, hide, getCloseRef }}
-    >
-      {children}
-      {renderNotification()}
+    <NotificationContext.Provider value={api}>
+      <NotificationThemeContext.Provider value={mergedTheme}>
+        <NotificationTypesContext.Provider value={notificationTypes}>
+          <NotificationIconsContext.Provider value={notificationIcons}>
+            <ReduceMotionContext.Provider value={motionReduced}>
+              {children}
+              {active.length > 0 && (
+                // Gesture root so swipe-to-dismiss works without app-level setup
+                <GestureHandlerRootView
+                  style={StyleSheet.absoluteFill}
+                  pointerEvents="box-none"
+                >
+                  {active.map(renderNotification)}
+                </GestureHandlerRootView>
+              )}
+            </ReduceMotionContext.Provider>
+          </NotificationIconsContext.Provider>
+        </NotificationTypesContext.Provider>
+      </NotificationThemeContext.Provider>
     </NotificationContext.Provider>
   );
 };
@@ -296,37 +1099,6 @@ export const useDynamicIsland = notif;
 // Export the context for backward compatibility
 export { NotificationContext };
 
-/**
- * Properties for all notification components
- * @interface NotificationProps
- */
-export interface NotificationProps {
-  /** Text message to display */
-  message: string;
-  /** Callback when notification is hidden */
-  onHide: () => void;
-  /** Type of notification */
-  type?: 'success' | 'failed' | 'default';
-  /** Custom text color */
-  textColor?: string;
-  /** Whether to show shadow */
-  showShadow?: boolean;
-  /** Custom shadow color */
-  shadowColor?: string;
-  /** Custom border color */
-  borderColor?: string;
-  /** Custom auto-hide delay in milliseconds */
-  autoHideDelay?: number;
-  /** Disable auto-hiding the notification */
-  disableAutoHide?: boolean;
-  /** Enable haptic feedback */
-  enableHaptics?: boolean;
-  /** Function to expose the close method */
-  setClose?: (closeFn: () => void) => void;
-  /** Custom content to display instead of message */
-  children?: React.ReactNode;
-}
-
 /**
  * Reference to notification methods
  * @interface NotificationRef
@@ -342,7 +1114,7 @@ export interface NotificationRef {
  */
 export interface NotificationStyle {
   /** Type of notification appearance */
-  type: 'dynamicIsland' | 'notch' | 'toast';
+  type: NotificationStyleName;
 }
 
 /**
@@ -0,0 +1,189 @@
+import type { ReactNode } from 'react';
+import type { AnimationOption } from './config/animations';
+
+/**
+ * Why a notification was dismissed
+ * - timeout: the auto-hide delay elapsed
+ * - tap: the notification was pressed
+ * - swipe: the notification was swiped away
+ * - programmatic: closed through hide(), dismiss() or the close function
+ * - replaced: dropped from a full queue in favor of a newer notification
+ * - action: one of its action buttons was pressed
+ * @typedef {'timeout' | 'tap' | 'swipe' | 'programmatic' | 'replaced' | 'action'} DismissReason
+ */
+export type DismissReason =
+  | 'timeout'
+  | 'tap'
+  | 'swipe'
+  | 'programmatic'
+  | 'replaced'
+  | 'action';
+
+/**
+ * Button displayed inside a notification ("Undo", "Retry", "View"...)
+ * @interface NotificationAction
+ */
+export type NotificationAction = {
+  /** Text of the button */
+  label: string;
+  /** Called when the button is pressed */
+  onPress: () => void;
+  /** Visual style of the button, same values as React Native Alert buttons */
+  style?: 'default' | 'cancel' | 'destructive';
+  /** Dismiss the notification after onPress, default true */
+  dismiss?: boolean;
+};
+
+/**
+ * Notification types shipped with the library
+ * @typedef {'success' | 'failed' | 'loading' | 'default' | 'warning' | 'info'} BuiltInNotificationType
+ */
+export type BuiltInNotificationType =
+  | 'success'
+  | 'failed'
+  | 'loading'
+  | 'default'
+  | 'warning'
+  | 'info';
+
+/**
+ * Custom notification types registered on the provider.
+ * Augment this interface to get type-safe shortcuts on the hook:
+ *
+ * declare module 'react-native-dynamic-toast' {
+ *   interface CustomNotificationTypes {
+ *     premium: true;
+ *   }
+ * }
+ */
+export interface CustomNotificationTypes {}
+
+/**
+ * Type of notification to display, built-in or registered
+ */
+export type NotificationType =
+  | BuiltInNotificationType
+  | Extract<keyof CustomNotificationTypes, string>;
+
+/**
+ * Haptic feedback played when a notification appears
+ * - success, warning, error: notification feedback
+ * - light, medium, heavy: impact feedback
+ * - none: no feedback
+ */
+export type HapticKind =
+  | 'success'
+  | 'warning'
+  | 'error'
+  | 'light'
+  | 'medium'
+  | 'heavy'
+  | 'none';
+
+/**
+ * Where toasts appear on screen
+ * - top: below the status bar, slides down
+ * - bottom: above the home indicator and the keyboard, slides up
+ * - center: middle of the screen, fades and scales in
+ * @typedef {'top' | 'bottom' | 'center'} ToastPosition
+ */
+export type ToastPosition = 'top' | 'bottom' | 'center';
+
+/**
+ * When notifications replace their motion with cross-fades
+ * - system: follow the Reduce Motion accessibility setting
+ * - always: always cross-fade
+ * - never: always play the full animations
+ * @typedef {'system' | 'always' | 'never'} ReduceMotionSetting
+ */
+export type ReduceMotionSetting = 'system' | 'always' | 'never';
+
+/**
+ * Notification styles shipped with the library
+ * @typedef {'dynamicIsland' | 'notch' | 'punchHole' | 'toast'} BuiltInNotificationStyle
+ */
+export type BuiltInNotificationStyle =
+  | 'dynamicIsland'
+  | 'notch'
+  | 'punchHole'
+  | 'toast';
+
+/**
+ * Custom renderers added with registerRenderer or the renderers prop.
+ * Augment this interface to use their names in forceStyle:
+ *
+ * declare module 'react-native-dynamic-toast' {
+ *   interface CustomNotificationRenderers {
+ *     banner: true;
+ *   }
+ * }
+ */
+export interface CustomNotificationRenderers {}
+
+/**
+ * Name of a notification style, built-in or registered renderer
+ */
+export type NotificationStyleName =
+  | BuiltInNotificationStyle
+  | Extract<keyof CustomNotificationRenderers, string>;
+
+/**
+ * Properties for all notification components, built-in or custom renderers.
+ * A renderer exposes its close function with setClose and calls onHide once
+ * its exit animation is finished.
+ * @interface NotificationProps
+ */
+export interface NotificationProps {
+  /** Text message to display */
+  message: string;
+  /** Callback when notification is hidden, with the reason */
+  onHide: (reason?: DismissReason) => void;
+  /** Called once when the notification starts appearing */
+  onShow?: () => void;
+  /** Called when the notification is pressed */
+  onPress?: () => void;
+  /** Called when the auto-hide delay elapses, before the hide animation */
+  onAutoHide?: () => void;
+  /** Type of notification */
+  type?: NotificationType;
+  /** Custom text color */
+  textColor?: string;
+  /** Whether to show shadow */
+  showShadow?: boolean;
+  /** Custom shadow color */
+  shadowColor?: string;
+  /** Custom border color */
+  borderColor?: string;
+  /** Custom background color */
+  backgroundColor?: string;
+  /** Custom auto-hide delay in milliseconds */
+  autoHideDelay?: number;
+  /** Disable auto-hiding the notification */
+  disableAutoHide?: boolean;
+  /** Enable haptic feedback */
+  enableHaptics?: boolean;
+  /** Show a bar with the time left before auto-hiding */
+  showCountdown?: boolean;
+  /** Completed part of a task from 0 to 1, shows a progress bar */
+  progress?: number;
+  /** Buttons displayed inside the notification */
+  actions?: NotificationAction[];
+  /** Icon displayed before the message, a React node or a registered icon name */
+  icon?: ReactNode;
+  /** Accessory displayed before the icon, a React node or a registered icon name */
+  leading?: ReactNode;
+  /** Accessory displayed after the message, a React node or a registered icon name */
+  trailing?: ReactNode;
+  /** Springs, durations and stagger: a preset name or overrides */
+  animation?: AnimationOption;
+  /** Where the notification appears on screen, used by toasts */
+  position?: ToastPosition;
+  /** Function to expose the close method */
+  setClose?: (closeFn: () => void) => void;
+  /** Custom content to display instead of message */
+  children?: ReactNode;
+  /** Content of the compact pill, used by the Dynamic Island */
+  compact?: ReactNode;
+  /** Content of the expanded card, used by the Dynamic Island */
+  expanded?: ReactNode;
+}
@@ -0,0 +1,31 @@
+import * as Haptics from 'expo-haptics';
+import type { HapticKind } from '../types';
+
+/**
+ * Play the haptic feedback of a notification type
+ * @param kind - Feedback to play, 'none' plays nothing
+ */
+export const triggerHaptic = (kind: HapticKind) => {
+  switch (kind) {
+    case 'success':
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      break;
+    case 'warning':
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      break;
+    case 'error':
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      break;
+    case 'light':
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      break;
+    case 'medium':
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      break;
+    case 'heavy':
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+      break;
+    default:
+      break;
+  }
+};
@@ -0,0 +1,17 @@
+/**
+ * Identifier of a notification, returned by every show method
+ * @typedef {string} NotificationId
+ */
+export type NotificationId = string;
+
+let counter = 0;
+
+/**
+ * Create a new unique notification identifier
+ * Ids are generated at module level so the imperative API can hand them out
+ * before any provider is mounted
+ */
+export const createNotificationId = (): NotificationId => {
+  counter += 1;
+  return `notification-${counter}`;
+};
@@ -0,0 +1,31 @@
+import type { NotificationUpdate, ProgressHandle } from '../index';
+import type { NotificationId } from './notificationId';
+
+/**
+ * Keep a progress value between 0 and 1
+ */
+export const clampProgress = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Create the handle controlling a progress notification
+ * @param id - Id of the progress notification
+ * @param update - Function applying changes to the notification
+ * @returns The handle returned by progress()
+ */
+export const createProgressHandle = (
+  id: NotificationId,
+  update: (id: NotificationId, changes: NotificationUpdate) => void
+): ProgressHandle => {
+  // Morph into the final type, the progress bar is removed
+  const finish = (type: 'success' | 'failed', message?: string) =>
+    update(id, { type, message, options: { progress: undefined } });
+
+  return {
+    id,
+    setProgress: (value) =>
+      update(id, { options: { progress: clampProgress(value) } }),
+    setMessage: (message) => update(id, { message }),
+    complete: (message) => finish('success', message),
+    fail: (message) => finish('failed', message),
+  };
+};
@@ -0,0 +1,31 @@
+import type { NotificationUpdate, PromiseMessages } from '../index';
+import type { NotificationId } from './notificationId';
+
+/**
+ * Morph a loading notification once its promise settles
+ * @param id - Id of the loading notification
+ * @param pending - Promise the notification follows
+ * @param messages - Messages shown on success and on failure
+ * @param update - Function applying changes to the notification
+ */
+export const settleWithPromise = <T>(
+  id: NotificationId,
+  pending: Promise<T>,
+  messages: PromiseMessages<T>,
+  update: (id: NotificationId, changes: NotificationUpdate) => void
+) => {
+  const { success, error: failure } = messages;
+
+  pending.then(
+    (value) =>
+      update(id, {
+        type: 'success',
+        message: typeof success === 'function' ? success(value) : success,
+      }),
+    (error: unknown) =>
+      update(id, {
+        type: 'failed',
+        message: typeof failure === 'function' ? failure(error) : failure,
+      })
+  );
+};
@@ -0,0 +1,139 @@
+import type { NotificationId } from './notificationId';
+
+/**
+ * Visible notifications and the ones waiting for a free slot
+ * @interface NotificationQueue
+ */
+export type NotificationQueue<T extends { id: NotificationId }> = {
+  /** Notifications on screen, oldest first */
+  active: T[];
+  /** Notifications waiting to be shown, oldest first */
+  queue: T[];
+};
+
+/**
+ * Whether a notification can be shown next to the ones on screen
+ */
+export type FitsFn<T> = (notification: T, shown: T[]) => boolean;
+
+/**
+ * Show a notification right away, or queue it when it does not fit.
+ * Queued notifications go first, so the order is kept.
+ * @param state - Current visible and queued notifications
+ * @param notification - Notification to add
+ * @param fits - Whether a notification can join the visible ones
+ * @param maxQueueSize - Maximum number of queued notifications, unlimited when undefined
+ * @returns The new state and the oldest queued notifications dropped to make room
+ */
+export function addNotification<T extends { id: NotificationId }>(
+  state: NotificationQueue<T>,
+  notification: T,
+  fits: FitsFn<T>,
+  maxQueueSize?: number
+): { state: NotificationQueue<T>; dropped: T[] } {
+  if (state.queue.length === 0 && fits(notification, state.active)) {
+    return {
+      state: { ...state, active: [...state.active, notification] },
+      dropped: [],
+    };
+  }
+
+  const queue = [...state.queue, notification];
+  const overflow =
+    maxQueueSize === undefined
+      ? 0
+      : Math.max(queue.length - Math.max(maxQueueSize, 0), 0);
+
+  return {
+    state: { ...state, queue: queue.slice(overflow) },
+    dropped: queue.slice(0, overflow),
+  };
+}
+
+/**
+ * Remove a hidden notification from the screen and show the queued ones
+ * that fit in its place, in order
+ * @param state - Current visible and queued notifications
+ * @param id - Id of the notification that was hidden
+ * @param fits - Whether a notification can join the visible ones
+ * @returns The new state and the hidden notification, undefined when the
+ * notification is not on screen (a late callback)
+ */
+export function releaseNotification<T extends { id: NotificationId }>(
+  state: NotificationQueue<T>,
+  id: NotificationId,
+  fits: FitsFn<T>
+): { state: NotificationQueue<T>; hidden: T } | undefined {
+  const hidden = state.active.find((notification) => notification.id === id);
+  if (!hidden) return undefined;
+
+  const active = state.active.filter((notification) => notification.id !== id);
+  let shown = 0;
+  for (const queued of state.queue) {
+    if (!fits(queued, active)) break;
+    active.push(queued);
+    shown += 1;
+  }
+
+  return { state: { active, queue: state.queue.slice(shown) }, hidden };
+}
+
+/**
+ * Drop every queued notification, the visible ones stay on screen
+ * @param state - Current visible and queued notifications
+ * @returns The new state and the dropped notifications
+ */
+export function clearQueuedNotifications<T extends { id: NotificationId }>(
+  state: NotificationQueue<T>
+): { state: NotificationQueue<T>; dropped: T[] } {
+  return { state: { ...state, queue: [] }, dropped: state.queue };
+}
+
+/**
+ * Apply changes to a notification, whether it is visible or still queued
+ * @param state - Current visible and queued notifications
+ * @param id - Id of the notification to change
+ * @param patch - Fields replacing the current ones
+ * @returns The new state, undefined when no notification has this id
+ */
+export function patchNotification<T extends { id: NotificationId }>(
+  state: NotificationQueue<T>,
+  id: NotificationId,
+  patch: Partial<Omit<T, 'id'>>
+): NotificationQueue<T> | undefined {
+  const apply = (notifications: T[]) =>
+    notifications.map((notification) =>
+      notification.id === id ? { ...notification, ...patch } : notification
+    );
+
+  if (state.active.some((notification) => notification.id === id)) {
+    return { ...state, active: apply(state.active) };
+  }
+  if (state.queue.some((notification) => notification.id === id)) {
+    return { ...state, queue: apply(state.queue) };
+  }
+  return undefined;
+}
+
+/**
+ * Remove a notification that is still waiting in the queue
+ * @param state - Current visible and queued notifications
+ * @param id - Id of the queued notification
+ * @returns The new state and the removed notification, undefined when no
+ * queued notification has this id
+ */
+export function removeQueuedNotification<T extends { id: NotificationId }>(
+  state: NotificationQueue<T>,
+  id: NotificationId
+): { state: NotificationQueue<T>; removed: T } | undefined {
+  const removed = state.queue.find((notification) => notification.id === id);
+  if (!removed) return undefined;
+
+  return {
+    state: {
+      ...state,
+      queue: state.queue.filter((notification) => notification.id !== id),
+    },
+    removed,
+  };
+}